@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import { DEFAULT_THEME, renderMarkdown, renderStandaloneHtml } from './lib'
+
+/**
+ * 命令行入口，在 VS Code 之外将 Markdown 渲染为 HTML
+ * 用法: shiki-md render input.md --theme vitesse-dark -o out.html
+ */
+
+const USAGE = `Usage: shiki-md render <input.md> [options]
+
+Options:
+  -t, --theme <name>       Shiki theme (default: ${DEFAULT_THEME})
+      --theme-file <file>  Load a VS Code or TextMate theme JSON, can be repeated
+  -o, --output <file>      Write HTML to a file instead of stdout
+      --fragment           Output only the rendered Markdown, without the page wrapper
+      --width <width>      Content width of the page, e.g. 800px
+      --font <family>      Font family of the page
+  -h, --help               Show this help`
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'theme': { type: 'string', short: 't' },
+      'theme-file': { type: 'string', multiple: true },
+      'output': { type: 'string', short: 'o' },
+      'fragment': { type: 'boolean' },
+      'width': { type: 'string' },
+      'font': { type: 'string' },
+      'help': { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [command, input] = positionals
+  if (values.help || !command) {
+    console.log(USAGE)
+    return values.help ? 0 : 1
+  }
+  if (command !== 'render' || !input || positionals.length > 2) {
+    console.error(USAGE)
+    return 1
+  }
+
+  const content = await fs.readFile(input, 'utf8')
+  const options = {
+    theme: values.theme,
+    themeFiles: values['theme-file'],
+    filePath: input,
+    documentWidth: values.width,
+    fontFamily: values.font,
+  }
+
+  const html = values.fragment
+    ? (await renderMarkdown(content, options)).html
+    : await renderStandaloneHtml(content, options)
+
+  if (values.output) {
+    await fs.mkdir(path.dirname(path.resolve(values.output)), { recursive: true })
+    await fs.writeFile(values.output, html, 'utf8')
+  }
+  else {
+    process.stdout.write(html)
+  }
+  return 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : String(error))
+    process.exitCode = 1
+  },
+)
@@ -1,9 +1,22 @@
+import type { ShikiMarkdownPreviewApi } from './types'
 import * as vscode from 'vscode'
-import { ConfigService, MarkdownPreviewPanel, MarkdownPreviewSerializer, showThemePicker } from './services'
+import { ConfigService, cycleFavoriteThemes, HtmlExporter, LinkDiagnostics, LinkQuickFixProvider, MarkdownPreviewPanel, MarkdownPreviewSerializer, OutlineProvider, PluginRegistry, PresentationPanel, RenderDiagnostics, RenderWorkerClient, showThemePicker, SiteExporter, ThemeHistory, TocService } from './services'
 import { DocumentValidator, ErrorHandler } from './utils'
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): ShikiMarkdownPreviewApi {
   const configService = new ConfigService()
+  ThemeHistory.initialize(context.globalState)
+
+  // 加载其他扩展通过 markdown.markdownItPlugins 贡献的插件，扩展安装或卸载、忽略列表变化时重新加载
+  void PluginRegistry.loadContributedPlugins()
+  context.subscriptions.push(
+    vscode.extensions.onDidChange(() => void PluginRegistry.loadContributedPlugins()),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('shikiMarkdownPreview.ignoredExtensions')) {
+        void PluginRegistry.loadContributedPlugins()
+      }
+    }),
+  )
 
   // 首次安装时显示 Cursor 图标配置提示
   const iconVisibilityHintShown = context.globalState.get<boolean>('iconVisibilityHintShown', false)
@@ -39,51 +52,221 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   )
 
+  // 切换主题的命令优先使用最近获得焦点的预览面板
+  const getThemePreviewPanel = async (): Promise<MarkdownPreviewPanel | undefined> => {
+    if (MarkdownPreviewPanel.activePanel) {
+      return MarkdownPreviewPanel.activePanel
+    }
+
+    // 如果预览面板不存在，检查当前活动编辑器
+    const markdownDocument = DocumentValidator.validateMarkdownDocument()
+    if (!markdownDocument)
+      return undefined
+
+    // 创建预览窗口并等待其完全初始化
+    return MarkdownPreviewPanel.createOrShowSlide(context.extensionUri, markdownDocument)
+  }
+
   // 注册主题选择命令
   context.subscriptions.push(
     vscode.commands.registerCommand('shikiMarkdownPreview.selectTheme', async () => {
-      // 优先检查预览面板是否存在
-      if (MarkdownPreviewPanel.currentPanel) {
-        // 如果预览面板存在，直接显示主题选择器
-        await ErrorHandler.safeExecute(
-          () => showThemePicker(
-            MarkdownPreviewPanel.currentPanel!,
-            MarkdownPreviewPanel.currentPanel!.themeService.currentTheme,
-          ),
-          '主题选择器打开失败',
-          'Extension',
-        )
+      const previewPanel = await getThemePreviewPanel()
+      if (!previewPanel)
         return
-      }
 
-      // 如果预览面板不存在，检查当前活动编辑器
-      const markdownDocument = DocumentValidator.validateMarkdownDocument()
+      await ErrorHandler.safeExecute(
+        () => showThemePicker(previewPanel, previewPanel.themeService.currentTheme),
+        '主题选择器打开失败',
+        'Extension',
+      )
+    }),
+    vscode.commands.registerCommand('shikiMarkdownPreview.cycleFavoriteThemes', async () => {
+      const previewPanel = await getThemePreviewPanel()
+      if (!previewPanel)
+        return
+
+      await ErrorHandler.safeExecute(
+        () => cycleFavoriteThemes(previewPanel),
+        '切换收藏主题失败',
+        'Extension',
+      )
+    }),
+  )
+
+  // 注册预览锁定命令，标题栏按钮根据锁定状态分别使用锁定/解锁命令
+  const togglePreviewLock = (locked?: boolean) => {
+    const previewPanel = MarkdownPreviewPanel.activePanel
+    if (!previewPanel) {
+      ErrorHandler.showWarning('没有可锁定的预览面板')
+      return
+    }
+    if (locked === undefined || previewPanel.isLocked !== locked) {
+      previewPanel.toggleLock()
+    }
+  }
+  context.subscriptions.push(
+    vscode.commands.registerCommand('shikiMarkdownPreview.togglePreviewLock', () => togglePreviewLock()),
+    vscode.commands.registerCommand('shikiMarkdownPreview.lockPreview', () => togglePreviewLock(true)),
+    vscode.commands.registerCommand('shikiMarkdownPreview.unlockPreview', () => togglePreviewLock(false)),
+  )
+
+  // 注册预览导航历史命令
+  context.subscriptions.push(
+    vscode.commands.registerCommand('shikiMarkdownPreview.navigateBack', () => {
+      MarkdownPreviewPanel.activePanel?.navigateHistory('back')
+    }),
+    vscode.commands.registerCommand('shikiMarkdownPreview.navigateForward', () => {
+      MarkdownPreviewPanel.activePanel?.navigateHistory('forward')
+    }),
+  )
+
+  // 注册演示模式命令
+  context.subscriptions.push(
+    vscode.commands.registerCommand('shikiMarkdownPreview.present', async (uri?: vscode.Uri) => {
+      const sourceDocument = uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : MarkdownPreviewPanel.activePanel?.panel.active
+          ? MarkdownPreviewPanel.activePanel.currentDocument
+          : undefined
+      const markdownDocument = DocumentValidator.validateMarkdownDocument(sourceDocument)
       if (!markdownDocument)
         return
 
-      // 创建预览窗口并等待其完全初始化
-      await MarkdownPreviewPanel.createOrShowSlide(context.extensionUri, markdownDocument)
+      await ErrorHandler.safeExecute(
+        () => PresentationPanel.show(context.extensionUri, markdownDocument),
+        '打开演示模式失败',
+        'Extension',
+      )
+    }),
+  )
 
-      if (MarkdownPreviewPanel.currentPanel) {
-        await ErrorHandler.safeExecute(
-          () => showThemePicker(
-            MarkdownPreviewPanel.currentPanel!,
-            MarkdownPreviewPanel.currentPanel!.themeService.currentTheme,
-          ),
-          '主题选择器打开失败',
-          'Extension',
-        )
+  // 注册导出 HTML 命令
+  context.subscriptions.push(
+    vscode.commands.registerCommand('shikiMarkdownPreview.exportHtml', async (uri?: vscode.Uri) => {
+      const sourceDocument = uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : MarkdownPreviewPanel.activePanel?.panel.active
+          ? MarkdownPreviewPanel.activePanel.currentDocument
+          : undefined
+      const markdownDocument = DocumentValidator.validateMarkdownDocument(sourceDocument)
+      if (!markdownDocument)
+        return
+
+      const targetUri = await vscode.window.showSaveDialog({
+        defaultUri: markdownDocument.uri.with({ path: `${markdownDocument.uri.path.replace(/\.(?:md|markdown)$/i, '')}.html` }),
+        filters: { HTML: ['html'] },
+      })
+      if (!targetUri)
+        return
+
+      const exported = await ErrorHandler.safeExecute(
+        async () => vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: '正在导出 HTML...' },
+          async () => {
+            await new HtmlExporter(context.extensionUri).exportDocument(markdownDocument, targetUri)
+            return true
+          },
+        ),
+        '导出 HTML 失败',
+        'Extension',
+      )
+      if (exported) {
+        ErrorHandler.showInfo(`已导出到 ${targetUri.fsPath}`)
+      }
+      else {
+        ErrorHandler.showError('导出 HTML 失败')
       }
     }),
   )
 
-  // 注册编辑器变更监听器，用于自动刷新
+  // 注册导出静态站点命令
+  context.subscriptions.push(
+    vscode.commands.registerCommand('shikiMarkdownPreview.exportFolder', async (uri?: vscode.Uri) => {
+      const folderUri = uri ?? (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        openLabel: '选择要导出的文件夹',
+      }))?.[0]
+      if (!folderUri)
+        return
+
+      const outputUri = (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        defaultUri: vscode.Uri.joinPath(folderUri, '..'),
+        openLabel: '选择输出目录',
+      }))?.[0]
+      if (!outputUri)
+        return
+
+      const pageCount = await ErrorHandler.safeExecute(
+        async () => vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: '正在导出静态站点...' },
+          () => new SiteExporter(context.extensionUri).exportFolder(folderUri, outputUri),
+        ),
+        '导出静态站点失败',
+        'Extension',
+      )
+      if (pageCount === null) {
+        ErrorHandler.showError('导出静态站点失败')
+      }
+      else if (pageCount === 0) {
+        ErrorHandler.showInfo('所选文件夹中没有 Markdown 文件')
+      }
+      else {
+        ErrorHandler.showInfo(`已导出 ${pageCount} 个页面到 ${outputUri.fsPath}`)
+      }
+    }),
+  )
+
+  // 注册插入/更新目录命令
+  context.subscriptions.push(
+    vscode.commands.registerCommand('shikiMarkdownPreview.insertToc', async () => {
+      const editor = DocumentValidator.getActiveMarkdownEditor()
+      if (!editor) {
+        ErrorHandler.showInfo('请先打开一个 Markdown 文件')
+        return
+      }
+
+      const written = await ErrorHandler.safeExecute(
+        () => new TocService().insertOrUpdate(editor),
+        '更新目录失败',
+        'Extension',
+      )
+      if (written === false) {
+        ErrorHandler.showInfo('文档中没有可生成目录的标题')
+      }
+    }),
+  )
+
+  // 注册链接诊断和快速修复，快速修复建议的锚点与诊断使用相同的规则
+  const linkDiagnostics = new LinkDiagnostics()
+  context.subscriptions.push(
+    linkDiagnostics,
+    vscode.languages.registerCodeActionsProvider('markdown', new LinkQuickFixProvider(linkDiagnostics), {
+      providedCodeActionKinds: LinkQuickFixProvider.providedCodeActionKinds,
+    }),
+    // 预览渲染时报告的公式和图表错误
+    new vscode.Disposable(() => RenderDiagnostics.dispose()),
+    new vscode.Disposable(() => RenderWorkerClient.dispose()),
+  )
+
+  // 注册预览大纲视图
+  const outlineProvider = new OutlineProvider()
+  context.subscriptions.push(
+    outlineProvider,
+    vscode.commands.registerCommand('shikiMarkdownPreview.filterOutline', () => outlineProvider.filter()),
+    vscode.commands.registerCommand('shikiMarkdownPreview.clearOutlineFilter', () => outlineProvider.clearFilter()),
+    vscode.commands.registerCommand('shikiMarkdownPreview.revealOutlineHeading', (line: number) => outlineProvider.revealHeading(line)),
+  )
+
+  // 注册编辑器变更监听器，用于自动刷新对应文档的预览
   context.subscriptions.push(
     vscode.workspace.onDidChangeTextDocument((event) => {
-      if (MarkdownPreviewPanel.currentPanel
-        && event.document === MarkdownPreviewPanel.currentPanel.currentDocument) {
+      const previewPanel = MarkdownPreviewPanel.getPanel(event.document.uri)
+      if (previewPanel) {
         ErrorHandler.safeExecuteSync(
-          () => MarkdownPreviewPanel.currentPanel!.updateContentDebounced(event.document),
+          () => previewPanel.updateContentDebounced(event.document),
           '文档内容更新失败',
           'Extension',
         )
@@ -94,17 +277,22 @@ export function activate(context: vscode.ExtensionContext) {
   // 注册活动编辑器变更监听器
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor((editor) => {
-      if (DocumentValidator.isMarkdownEditor(editor) && MarkdownPreviewPanel.currentPanel) {
-        // 只有在切换到不同的 markdown 文件时才更新预览
-        const currentDocument = MarkdownPreviewPanel.currentPanel.currentDocument
-        if (!currentDocument || editor!.document !== currentDocument) {
-          void ErrorHandler.safeExecute(
-            () => MarkdownPreviewPanel.currentPanel!.updateContent(editor!.document),
-            '活动编辑器内容更新失败',
-            'Extension',
-          )
-        }
+      if (!DocumentValidator.isMarkdownEditor(editor)) {
+        return
       }
+
+      // 该文档已有自己的预览时保持不变，否则由最近活动且未锁定的预览跟随
+      const document = editor!.document
+      const previewPanel = MarkdownPreviewPanel.followingPanel
+      if (!previewPanel || MarkdownPreviewPanel.getPanel(document.uri)) {
+        return
+      }
+
+      void ErrorHandler.safeExecute(
+        () => previewPanel.updateContent(document),
+        '活动编辑器内容更新失败',
+        'Extension',
+      )
     }),
   )
 
@@ -112,21 +300,21 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.workspace.onDidChangeConfiguration(async (event) => {
       // 检查滚动同步设置是否发生变化
       if (event.affectsConfiguration('shikiMarkdownPreview.enableScrollSync')) {
-        if (MarkdownPreviewPanel.currentPanel) {
-          const config = vscode.workspace.getConfiguration('shikiMarkdownPreview')
-          const enableScrollSync = config.get<boolean>('enableScrollSync', true)
+        const config = vscode.workspace.getConfiguration('shikiMarkdownPreview')
+        const enableScrollSync = config.get<boolean>('enableScrollSync', true)
 
-          if (MarkdownPreviewPanel.currentPanel.scrollSyncManager) {
+        for (const previewPanel of MarkdownPreviewPanel.panels) {
+          if (previewPanel.scrollSyncManager) {
             if (enableScrollSync) {
-              MarkdownPreviewPanel.currentPanel.scrollSyncManager.enable()
+              previewPanel.scrollSyncManager.enable()
             }
             else {
-              MarkdownPreviewPanel.currentPanel.scrollSyncManager.disable()
+              previewPanel.scrollSyncManager.disable()
             }
           }
 
           // 通知webview更新滚动同步状态
-          MarkdownPreviewPanel.currentPanel.panel.webview.postMessage({
+          previewPanel.panel.webview.postMessage({
             command: 'updateScrollSyncState',
             enabled: enableScrollSync,
           })
@@ -134,10 +322,10 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       if (event.affectsConfiguration('shikiMarkdownPreview.enableScrollSyncDebug')) {
-        if (MarkdownPreviewPanel.currentPanel) {
-          const enableScrollSyncDebug = configService.getScrollSyncDebugEnabled()
-          MarkdownPreviewPanel.currentPanel.scrollSyncManager?.setDebugEnabled(enableScrollSyncDebug)
-          MarkdownPreviewPanel.currentPanel.panel.webview.postMessage({
+        const enableScrollSyncDebug = configService.getScrollSyncDebugEnabled()
+        for (const previewPanel of MarkdownPreviewPanel.panels) {
+          previewPanel.scrollSyncManager?.setDebugEnabled(enableScrollSyncDebug)
+          previewPanel.panel.webview.postMessage({
             command: 'updateScrollSyncDebugState',
             enabled: enableScrollSyncDebug,
           })
@@ -153,6 +341,9 @@ export function activate(context: vscode.ExtensionContext) {
       vscode.window.registerWebviewPanelSerializer(MarkdownPreviewPanel.viewType, serializer),
     )
   }
+
+  // 返回公共 API，供其他扩展注册插件、脚本、样式和渲染后处理钩子
+  return PluginRegistry.createApi()
 }
 
 export function deactivate() {
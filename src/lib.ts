@@ -0,0 +1,137 @@
+import type { MarkdownRenderEnv, RenderedHeading, RenderError } from './services/renderer/shiki-markdown-renderer'
+import type { ContainerDefinition } from './types/container'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { inlineKatexFonts } from './services/export/katex-fonts'
+import { generateStandaloneHTML } from './services/export/standalone-template'
+import { ShikiMarkdownRenderer } from './services/renderer/shiki-markdown-renderer'
+import { ShikiThemeService } from './services/theme/shiki-theme-service'
+import { hasMathExpressions } from './utils/math-detector'
+
+export type { RenderedHeading, RenderError } from './services/renderer/shiki-markdown-renderer'
+export type { ContainerDefinition } from './types/container'
+
+/**
+ * 未指定主题时使用的主题，与设置 shikiMarkdownPreview.currentTheme 的默认值一致
+ */
+export const DEFAULT_THEME = 'vitesse-dark'
+
+/**
+ * 扩展自带的样式和脚本所在目录
+ */
+const WEBVIEW_ASSETS_DIR = path.join(__dirname, '..', 'src', 'webview')
+
+/**
+ * 在 VS Code 之外渲染 Markdown 的选项，对应预览使用的设置
+ */
+export interface RenderMarkdownOptions {
+  /** Shiki 主题名称，也可以是 themeFiles 中主题的名称 */
+  theme?: string
+  /** 自定义主题文件（VS Code 或 TextMate 主题 JSON），对应设置 shikiMarkdownPreview.customThemes */
+  themeFiles?: string[]
+  /** 自定义容器，对应设置 shikiMarkdownPreview.customContainers */
+  customContainers?: ContainerDefinition[]
+  /** Markdown 文件路径，用于解析相对链接，也作为页面的默认标题 */
+  filePath?: string
+  /** 页面内容宽度，对应设置 shikiMarkdownPreview.documentWidth */
+  documentWidth?: string
+  /** 页面字体，对应设置 shikiMarkdownPreview.fontFamily */
+  fontFamily?: string
+}
+
+export interface RenderMarkdownResult {
+  /** 渲染后的正文 HTML，与预览中的内容一致 */
+  html: string
+  frontMatterData: Record<string, any>
+  headings: RenderedHeading[]
+  /** KaTeX 公式错误 */
+  renderErrors: RenderError[]
+}
+
+/**
+ * 使用与预览相同的渲染流程将 Markdown 渲染为 HTML
+ */
+export async function renderMarkdown(content: string, options: RenderMarkdownOptions = {}): Promise<RenderMarkdownResult> {
+  return withRenderer(options, async (renderer) => {
+    const env: MarkdownRenderEnv = {}
+    const html = await renderer.renderHtml(content, env)
+    return {
+      html,
+      frontMatterData: renderer.getFrontMatterData(content),
+      headings: env.headings ?? [],
+      renderErrors: env.renderErrors ?? [],
+    }
+  })
+}
+
+/**
+ * 将 Markdown 渲染为可直接打开的独立 HTML 页面，与导出的 HTML 文件一致
+ */
+export async function renderStandaloneHtml(content: string, options: RenderMarkdownOptions = {}): Promise<string> {
+  return withRenderer(options, async (renderer, themeService) => {
+    const html = await renderer.renderHtml(content)
+    const frontMatterData = renderer.getFrontMatterData(content)
+
+    const inlineStyles = [await readWebviewAsset('style.css')]
+    if (hasMathExpressions(content)) {
+      inlineStyles.push(await inlineKatexFonts(await readWebviewAsset('katex.min.css')))
+    }
+
+    // Mermaid 图表需要在浏览器中渲染，仅在文档包含图表时内联
+    const inlineScripts: string[] = []
+    if (html.includes('language-mermaid')) {
+      inlineScripts.push(
+        await readWebviewAsset('modules/mermaid.min.js'),
+        await readWebviewAsset('modules/mermaid-renderer.js'),
+        'window.addEventListener(\'DOMContentLoaded\', () => window.renderMermaidDiagrams())',
+      )
+    }
+
+    return generateStandaloneHTML({
+      content: html,
+      title: frontMatterData?.title || (options.filePath ? path.basename(options.filePath) : undefined),
+      themeCSSVariables: await themeService.getThemeCSSVariables(),
+      markdownThemeType: themeService.getCurrentThemeType(),
+      documentWidth: options.documentWidth,
+      fontFamily: options.fontFamily,
+      inlineStyles,
+      inlineScripts,
+    })
+  })
+}
+
+/**
+ * 创建渲染器执行渲染，结束后释放高亮器
+ */
+async function withRenderer<T>(
+  options: RenderMarkdownOptions,
+  render: (renderer: ShikiMarkdownRenderer, themeService: ShikiThemeService) => Promise<T>,
+): Promise<T> {
+  const theme = options.theme ?? DEFAULT_THEME
+  const themeService = new ShikiThemeService(theme, {
+    customThemes: options.themeFiles?.map(file => ({ path: path.resolve(file), origin: path.basename(file) })),
+  })
+  const renderer = new ShikiMarkdownRenderer(themeService, {
+    customContainers: options.customContainers,
+    documentUri: options.filePath ? pathToFileURL(path.resolve(options.filePath)).toString() : undefined,
+  })
+
+  try {
+    if (!(await themeService.isValidTheme(theme))) {
+      throw new Error(`无效的主题: ${theme}`)
+    }
+
+    await themeService.initializeHighlighter()
+    renderer.initialize()
+    return await render(renderer, themeService)
+  }
+  finally {
+    renderer.dispose()
+    themeService.dispose()
+  }
+}
+
+async function readWebviewAsset(relativePath: string): Promise<string> {
+  return fs.readFile(path.join(WEBVIEW_ASSETS_DIR, relativePath), 'utf8')
+}
@@ -0,0 +1,204 @@
+import type * as vscode from 'vscode'
+import type { DocumentOverrides, FrontMatterIssue } from '../../types/front-matter'
+import type { TocConfig } from '../../types/toc'
+import type { ThemeService } from '../theme'
+import type { ConfigService } from './index'
+import { RenderDiagnostics } from '../diagnostics/render-diagnostics'
+import { CSS_WIDTH_PATTERN, resolveTocConfig } from '../toc/toc-config'
+
+// 字体值会写入样式，排除可能结束声明或样式块的字符
+const FONT_FAMILY_PATTERN = /^[^;{}<>\\\n]+$/
+
+/**
+ * 读取 front matter 中的 theme、documentWidth、fontFamily 和 math 字段，无效的值被忽略
+ * @param frontMatterData 解析后的 front matter
+ * @param isValidTheme 判断主题是否可用
+ * @param issues 收集填写了但无效的字段
+ */
+export function resolveDocumentOverrides(
+  frontMatterData: unknown,
+  isValidTheme: (theme: string) => boolean,
+  issues: FrontMatterIssue[] = [],
+): DocumentOverrides {
+  if (!frontMatterData || typeof frontMatterData !== 'object') {
+    return {}
+  }
+
+  const { theme, documentWidth, fontFamily, math } = frontMatterData as Record<string, unknown>
+  const overrides: DocumentOverrides = {}
+
+  if (typeof theme === 'string' && isValidTheme(theme.trim())) {
+    overrides.theme = theme.trim()
+  }
+  else if (theme !== undefined) {
+    issues.push({ key: 'theme', message: `theme 无效: ${String(theme)} 不是可用的主题` })
+  }
+
+  if (typeof documentWidth === 'string' && CSS_WIDTH_PATTERN.test(documentWidth.trim())) {
+    overrides.documentWidth = documentWidth.trim()
+  }
+  else if (documentWidth !== undefined) {
+    issues.push({ key: 'documentWidth', message: `documentWidth 无效: ${String(documentWidth)}，应为 CSS 宽度值，如 800px、100%、60rem` })
+  }
+
+  if (typeof fontFamily === 'string' && FONT_FAMILY_PATTERN.test(fontFamily.trim())) {
+    overrides.fontFamily = fontFamily.trim()
+  }
+  else if (fontFamily !== undefined) {
+    issues.push({ key: 'fontFamily', message: 'fontFamily 无效: 应为字体名称列表，不能包含 ; { } < > 或反斜杠' })
+  }
+
+  if (typeof math === 'boolean') {
+    overrides.math = math
+  }
+  else if (math !== undefined) {
+    issues.push({ key: 'math', message: 'math 应为 true 或 false' })
+  }
+
+  return overrides
+}
+
+/**
+ * 当前预览文档在 front matter 中覆盖的设置，切换文档后重新解析
+ * 提供覆盖后生效的宽度、字体和目录配置，并负责应用文档指定的主题
+ */
+export class DocumentOverridesResolver {
+  private _overrides: DocumentOverrides = {}
+  private _frontMatterToc: unknown
+  // 已应用的 front matter 主题，没有时使用设置中的主题
+  private _appliedTheme: string | undefined
+
+  constructor(
+    private readonly _configService: ConfigService,
+    private readonly _themeService: ThemeService,
+  ) {}
+
+  /**
+   * 当前文档的覆盖项
+   */
+  get overrides(): DocumentOverrides {
+    return this._overrides
+  }
+
+  /**
+   * 已应用的 front matter 主题
+   */
+  get appliedTheme(): string | undefined {
+    return this._appliedTheme
+  }
+
+  /**
+   * 解析文档的 front matter，替换当前的覆盖项
+   * @param frontMatterData 解析后的 front matter
+   */
+  resolve(frontMatterData: unknown): { overrides: DocumentOverrides, issues: FrontMatterIssue[] } {
+    const issues: FrontMatterIssue[] = []
+    this._overrides = resolveDocumentOverrides(frontMatterData, theme => this._themeService.isValidThemeSync(theme), issues)
+    this._frontMatterToc = (frontMatterData as { toc?: unknown } | undefined)?.toc
+
+    // 提前解析一次目录配置，收集其中无效的字段
+    resolveTocConfig(this._configService.getTocConfig(), this._frontMatterToc, issues)
+    return { overrides: this._overrides, issues }
+  }
+
+  /**
+   * 清除覆盖项，没有文档时使用设置中的值
+   */
+  clear(): void {
+    this._overrides = {}
+    this._frontMatterToc = undefined
+  }
+
+  /**
+   * 应用 front matter 中的主题，切换到没有指定主题的文档时恢复设置中的主题
+   * 主题未变化时不做处理，以免覆盖主题选择器正在预览的主题
+   * @returns 是否切换了主题
+   */
+  async applyTheme(): Promise<boolean> {
+    const theme = this._overrides.theme
+    if (theme === this._appliedTheme) {
+      return false
+    }
+
+    this._appliedTheme = theme
+    return theme
+      ? this._themeService.updateThemeForPreview(theme)
+      : this._themeService.applyEffectiveTheme()
+  }
+
+  /**
+   * 高亮器重建后回到设置中的主题，下次渲染时重新应用 front matter 中的主题
+   */
+  resetTheme(): void {
+    this._appliedTheme = undefined
+  }
+
+  /**
+   * 获取文档宽度，front matter 中的 documentWidth 优先于设置
+   */
+  getDocumentWidth(): string {
+    return this._overrides.documentWidth ?? this._configService.getDocumentWidth()
+  }
+
+  /**
+   * 获取预览字体，front matter 中的 fontFamily 优先于设置
+   */
+  getFontFamily(): string {
+    return this._overrides.fontFamily ?? this._configService.getFontFamily()
+  }
+
+  /**
+   * 获取目录配置，front matter 中的 toc 字段优先于设置
+   */
+  getTocConfig(): TocConfig {
+    return resolveTocConfig(this._configService.getTocConfig(), this._frontMatterToc)
+  }
+}
+
+/**
+ * 在问题面板中报告 front matter 中无效的字段，定位到字段所在的行
+ * @param document 预览的文档
+ * @param issues 解析时收集的无效字段
+ */
+export function publishFrontMatterIssues(document: vscode.TextDocument, issues: FrontMatterIssue[]): void {
+  const content = document.getText()
+  RenderDiagnostics.update(document, 'frontMatter', issues.map(issue => ({
+    source: 'frontMatter',
+    line: findFrontMatterLine(content, issue.key),
+    message: issue.message,
+    severity: 'warning',
+  })))
+}
+
+/**
+ * 查找 front matter 字段所在的行（从 0 开始），嵌套字段找不到时返回父字段的行
+ * @param content 完整的 Markdown 内容
+ * @param key 字段路径，如 theme、toc.levels
+ */
+export function findFrontMatterLine(content: string, key: string): number {
+  const lines = content.split(/\r?\n/)
+  if (lines[0]?.trim() !== '---') {
+    return 0
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && /^(?:---|\.\.\.)\s*$/.test(line))
+  const [parent, child] = key.split('.')
+  const parentLine = lines.findIndex((line, index) => index > 0 && (end === -1 || index < end) && new RegExp(`^${parent}\\s*:`).test(line))
+  if (parentLine === -1) {
+    return 0
+  }
+  if (!child) {
+    return parentLine
+  }
+
+  // 子字段位于父字段之后缩进更深的行中
+  for (let index = parentLine + 1; index < (end === -1 ? lines.length : end); index++) {
+    if (/^\S/.test(lines[index])) {
+      break
+    }
+    if (new RegExp(`^\\s+${child}\\s*:`).test(lines[index])) {
+      return index
+    }
+  }
+  return parentLine
+}
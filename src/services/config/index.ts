@@ -1,4 +1,7 @@
+import type { ContainerDefinition } from '../../types/container'
+import type { TocConfig } from '../../types/toc'
 import * as vscode from 'vscode'
+import { DEFAULT_TOC_CONFIG, resolveTocConfig } from '../toc/toc-config'
 
 /**
  * 配置服务，用于管理主题配置
@@ -53,10 +56,47 @@ export class ConfigService {
     }
   }
 
+  /**
+   * 是否让预览直接使用 VS Code 当前的颜色主题
+   */
+  public getMatchVSCodeThemeEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get<boolean>('matchVSCodeTheme', false)
+  }
+
+  /**
+   * 获取 VS Code 当前使用的颜色主题名称，与扩展贡献主题的 id（没有 id 时为 label）一致
+   * VS Code 开启 window.autoDetectColorScheme 时，按当前外观读取对应的偏好主题
+   */
+  public getActiveWorkbenchTheme(): string {
+    const workbench = vscode.workspace.getConfiguration('workbench')
+    if (vscode.workspace.getConfiguration('window').get<boolean>('autoDetectColorScheme', false)) {
+      switch (vscode.window.activeColorTheme.kind) {
+        case vscode.ColorThemeKind.Light:
+          return workbench.get('preferredLightColorTheme', 'Default Light Modern')
+        case vscode.ColorThemeKind.HighContrast:
+          return workbench.get('preferredHighContrastColorTheme', 'Default High Contrast')
+        case vscode.ColorThemeKind.HighContrastLight:
+          return workbench.get('preferredHighContrastLightColorTheme', 'Default High Contrast Light')
+        case vscode.ColorThemeKind.Dark:
+        default:
+          return workbench.get('preferredDarkColorTheme', 'Default Dark Modern')
+      }
+    }
+    return workbench.get('colorTheme', 'Default Dark Modern')
+  }
+
   /**
    * 获取当前真正应该生效的预览主题
    */
   public getEffectiveTheme(): string {
+    return this.getMatchVSCodeThemeEnabled() ? this.getActiveWorkbenchTheme() : this.getConfiguredTheme()
+  }
+
+  /**
+   * 获取预览设置中选择的主题，不考虑跟随 VS Code 主题
+   */
+  public getConfiguredTheme(): string {
     if (!this.getAutoDetectColorSchemeEnabled()) {
       return this.getCurrentTheme()
     }
@@ -87,6 +127,28 @@ export class ConfigService {
     return config.get('documentWidth', '800px')
   }
 
+  /**
+   * 获取浮动目录配置，文档可以通过 front matter 的 toc 字段再覆盖
+   */
+  public getTocConfig(): TocConfig {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return resolveTocConfig(DEFAULT_TOC_CONFIG, {
+      expand: config.get<boolean>('expandTocByDefault'),
+      levels: config.get<number[]>('tocLevels'),
+      numbering: config.get<boolean>('tocNumbering'),
+      position: config.get<string>('tocPosition'),
+      maxWidth: config.get<string>('tocMaxWidth'),
+    })
+  }
+
+  /**
+   * 获取演示模式拆分幻灯片的方式
+   */
+  public getPresentationSplitOn(): 'hr' | 'h1' | 'h2' | 'h3' {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get('presentationSplitOn', 'hr')
+  }
+
   /**
    * 获取字体设置
    */
@@ -96,6 +158,83 @@ export class ConfigService {
     return !fontFamily || fontFamily.trim() === '' ? 'inherit' : fontFamily
   }
 
+  /**
+   * 获取用户声明的自定义容器
+   */
+  public getCustomContainers(): ContainerDefinition[] {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    const containers = config.get<ContainerDefinition[]>('customContainers', [])
+    return Array.isArray(containers) ? containers : []
+  }
+
+  /**
+   * 获取用户指定的自定义主题文件路径
+   */
+  public getCustomThemePaths(): string[] {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    const paths = config.get<string[]>('customThemes', [])
+    return Array.isArray(paths) ? paths.filter(item => typeof item === 'string' && item.trim() !== '') : []
+  }
+
+  /**
+   * 获取注入预览的自定义样式路径
+   * @param resource 文档 URI，用于读取其所在工作区文件夹中的设置
+   */
+  public getCustomStylePaths(resource?: vscode.Uri): string[] {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION, resource)
+    const paths = config.get<string[]>('styles', [])
+    return Array.isArray(paths) ? paths.filter(item => typeof item === 'string' && item.trim() !== '') : []
+  }
+
+  /**
+   * 是否可以使用已安装扩展贡献的颜色主题
+   */
+  public getIncludeInstalledThemesEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get<boolean>('includeInstalledThemes', true)
+  }
+
+  /**
+   * 获取预览中点击 Markdown 文件链接时的打开方式
+   */
+  public getMarkdownLinkBehavior(): 'editor' | 'preview' {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get<'editor' | 'preview'>('markdownLinkBehavior', 'editor') === 'preview' ? 'preview' : 'editor'
+  }
+
+  /**
+   * 是否在独立的渲染线程中渲染预览
+   */
+  public getRenderInWorkerEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get<boolean>('renderInWorker', true)
+  }
+
+  /**
+   * 是否在问题面板中报告失效的链接和图片
+   */
+  public getValidateLinksEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get<boolean>('validateLinks', true)
+  }
+
+  /**
+   * 不加载其贡献的插件、脚本和样式的扩展 ID
+   */
+  public getIgnoredExtensions(): string[] {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    const ids = config.get<string[]>('ignoredExtensions', [])
+    return Array.isArray(ids) ? ids.filter(id => typeof id === 'string' && id.trim() !== '').map(id => id.trim()) : []
+  }
+
+  /**
+   * 是否同时检查 http(s) 外部链接，需要网络访问
+   */
+  public getValidateExternalLinksEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration(ConfigService.SECTION)
+    return config.get<boolean>('validateExternalLinks', false)
+  }
+
   /**
    * 是否输出滚动同步排查日志
    */
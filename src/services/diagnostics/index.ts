@@ -0,0 +1,4 @@
+export * from './link-diagnostics'
+export * from './link-quick-fix'
+export * from './link-references'
+export * from './render-diagnostics'
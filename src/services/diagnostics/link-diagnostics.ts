@@ -0,0 +1,263 @@
+import type { MarkdownRenderEnv } from '../renderer/markdown-renderer'
+import type { LinkReference } from './link-references'
+import * as vscode from 'vscode'
+import { DocumentValidator } from '../../utils/document-validator'
+import { ErrorHandler } from '../../utils/error-handler'
+import { PathResolver } from '../../utils/path-resolver'
+import { findHeadingByFragment } from '../../utils/slugger'
+import { ConfigService } from '../config'
+import { PluginRegistry } from '../plugins/plugin-registry'
+import { MarkdownRenderer } from '../renderer/markdown-renderer'
+import { ThemeService } from '../theme/theme-service'
+import {
+  collectLinkReferences,
+  extractHtmlAnchorIds,
+  isExternalHref,
+  LINK_DIAGNOSTIC_SOURCE,
+  LinkDiagnosticCode,
+  readDocumentText,
+  resolveLinkPath,
+  splitHref,
+} from './link-references'
+
+/** 文档修改后重新检查的延迟 */
+const VALIDATION_DELAY = 500
+
+/** 外部链接请求的超时时间 */
+const EXTERNAL_LINK_TIMEOUT = 5000
+
+/** 外部链接检查结果的有效期，过期后重新请求，修复后的链接不会一直被报告 */
+const EXTERNAL_LINK_CACHE_TTL = 5 * 60 * 1000
+
+const MARKDOWN_FILE_PATTERN = /\.(?:md|markdown)$/i
+
+/**
+ * 链接诊断
+ * 使用预览渲染器解析 Markdown，检查相对链接、标题锚点和本地图片，并将失效的引用报告到问题面板
+ */
+export class LinkDiagnostics implements vscode.Disposable {
+  private readonly _collection = vscode.languages.createDiagnosticCollection('shikiMarkdownPreview.links')
+  private readonly _configService = new ConfigService()
+  private readonly _themeService = new ThemeService()
+  private readonly _renderer = new MarkdownRenderer(this._themeService)
+  private readonly _pendingValidations = new Map<string, NodeJS.Timeout>()
+  private readonly _externalLinkCache = new Map<string, { reachable: Promise<boolean>, checkedAt: number }>()
+  private _disposables: vscode.Disposable[] = []
+
+  constructor() {
+    // 只用于解析 token，不需要初始化语法高亮器
+    this._renderer.initialize()
+
+    this._disposables.push(
+      this._collection,
+      vscode.workspace.onDidOpenTextDocument(document => this.scheduleValidation(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.clear(document)),
+      // 标题或文件变化会影响其他文档中的链接
+      vscode.workspace.onDidSaveTextDocument(() => this.validateOpenDocuments()),
+      vscode.workspace.onDidCreateFiles(() => this.validateOpenDocuments()),
+      vscode.workspace.onDidDeleteFiles(() => this.validateOpenDocuments()),
+      vscode.workspace.onDidRenameFiles(() => this.validateOpenDocuments()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('shikiMarkdownPreview.validateLinks')
+          || event.affectsConfiguration('shikiMarkdownPreview.validateExternalLinks')
+          || event.affectsConfiguration('shikiMarkdownPreview.customContainers')) {
+          // 重新开启检查时不使用之前的结果
+          this._externalLinkCache.clear()
+          this.validateOpenDocuments()
+        }
+      }),
+      PluginRegistry.onDidChange(() => {
+        this._renderer.initialize()
+        this.validateOpenDocuments()
+      }),
+    )
+
+    this.validateOpenDocuments()
+  }
+
+  /**
+   * 重新检查所有已打开的 Markdown 文档
+   */
+  validateOpenDocuments(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.scheduleValidation(document)
+    }
+  }
+
+  private scheduleValidation(document: vscode.TextDocument): void {
+    if (!DocumentValidator.isMarkdownDocument(document)) {
+      return
+    }
+
+    const key = document.uri.toString()
+    clearTimeout(this._pendingValidations.get(key))
+    this._pendingValidations.set(key, setTimeout(() => {
+      this._pendingValidations.delete(key)
+      void ErrorHandler.safeExecute(
+        () => this.validateDocument(document),
+        '链接检查失败',
+        'LinkDiagnostics',
+      )
+    }, VALIDATION_DELAY))
+  }
+
+  private clear(document: vscode.TextDocument): void {
+    const key = document.uri.toString()
+    clearTimeout(this._pendingValidations.get(key))
+    this._pendingValidations.delete(key)
+    this._collection.delete(document.uri)
+  }
+
+  /**
+   * 检查文档中的所有链接和图片
+   */
+  async validateDocument(document: vscode.TextDocument): Promise<void> {
+    if (document.isClosed || !this._configService.getValidateLinksEnabled()) {
+      this._collection.delete(document.uri)
+      return
+    }
+
+    const version = document.version
+    const content = document.getText()
+    const env: MarkdownRenderEnv = {}
+    const { tokens, sourceLineOffset } = this._renderer.parse(content, env)
+    const anchorIds = [...(env.headings ?? []), ...extractHtmlAnchorIds(content).map(id => ({ id }))]
+
+    const references = collectLinkReferences(document, tokens, sourceLineOffset)
+    const results = await Promise.all(references.map(reference => this.validateReference(document, reference, anchorIds)))
+
+    // 检查期间文档已修改或关闭时，交给下一次检查
+    if (document.isClosed || document.version !== version) {
+      return
+    }
+    this._collection.set(document.uri, results.filter(diagnostic => diagnostic !== undefined))
+  }
+
+  private async validateReference(
+    document: vscode.TextDocument,
+    reference: LinkReference,
+    anchorIds: { id: string }[],
+  ): Promise<vscode.Diagnostic | undefined> {
+    const { href, range, exact } = reference
+    if (href.startsWith('data:')) {
+      return undefined
+    }
+
+    if (isExternalHref(href)) {
+      return this.validateExternalLink(href, range)
+    }
+
+    const { path, fragment } = splitHref(href)
+
+    // 当前文档内的锚点
+    if (!path) {
+      if (!fragment || findHeadingByFragment(anchorIds, fragment)) {
+        return undefined
+      }
+      return this.createDiagnostic(
+        this.getFragmentRange(reference),
+        `找不到标题: #${fragment}`,
+        LinkDiagnosticCode.MissingHeading,
+        document.uri,
+      )
+    }
+
+    // 未保存的新文档没有所在目录，无法解析相对路径
+    if (document.isUntitled) {
+      return undefined
+    }
+
+    const pathRange = exact ? new vscode.Range(range.start, range.start.translate(0, path.length)) : range
+    const targetUri = resolveLinkPath(document, path)
+    if (!targetUri || !(await PathResolver.fileExists(targetUri))) {
+      return reference.kind === 'image'
+        ? this.createDiagnostic(pathRange, `找不到图片: ${path}`, LinkDiagnosticCode.MissingImage)
+        : this.createDiagnostic(pathRange, `找不到文件: ${path}`, LinkDiagnosticCode.MissingFile)
+    }
+
+    // 其他 Markdown 文件中的锚点
+    if (!fragment || !MARKDOWN_FILE_PATTERN.test(targetUri.path)) {
+      return undefined
+    }
+
+    const targetContent = await readDocumentText(targetUri)
+    if (targetContent === undefined) {
+      return undefined
+    }
+
+    if (findHeadingByFragment(this.getAnchorIds(targetContent).map(id => ({ id })), fragment)) {
+      return undefined
+    }
+    return this.createDiagnostic(
+      this.getFragmentRange(reference),
+      `在 ${path} 中找不到标题: #${fragment}`,
+      LinkDiagnosticCode.MissingHeading,
+      targetUri,
+    )
+  }
+
+  /**
+   * 检查外部链接，只有服务器明确返回不存在时才报告，网络不可用或超时不视为失效
+   */
+  private async validateExternalLink(href: string, range: vscode.Range): Promise<vscode.Diagnostic | undefined> {
+    if (!/^https?:/i.test(href) || !this._configService.getValidateExternalLinksEnabled()) {
+      return undefined
+    }
+
+    let cached = this._externalLinkCache.get(href)
+    if (!cached || Date.now() - cached.checkedAt > EXTERNAL_LINK_CACHE_TTL) {
+      const reachable = fetch(href, { method: 'HEAD', redirect: 'follow', signal: AbortSignal.timeout(EXTERNAL_LINK_TIMEOUT) })
+        .then(response => response.status !== 404 && response.status !== 410)
+        .catch(() => true)
+      cached = { reachable, checkedAt: Date.now() }
+      this._externalLinkCache.set(href, cached)
+    }
+
+    return (await cached.reachable)
+      ? undefined
+      : this.createDiagnostic(range, `链接无法访问: ${href}`, LinkDiagnosticCode.UnreachableUrl)
+  }
+
+  /**
+   * 文档中可以作为锚点的 ID，标题 ID 由预览的渲染器生成，与预览和快速修复的建议一致
+   */
+  getAnchorIds(content: string): string[] {
+    return [...this._renderer.extractHeadings(content).map(heading => heading.id), ...extractHtmlAnchorIds(content)]
+  }
+
+  /**
+   * 锚点部分（# 之后）在源码中的范围，链接地址未能精确定位时返回整行
+   */
+  private getFragmentRange(reference: LinkReference): vscode.Range {
+    const hashIndex = reference.href.indexOf('#')
+    if (hashIndex < 0 || !reference.exact) {
+      return reference.range
+    }
+    return new vscode.Range(reference.range.start.translate(0, hashIndex + 1), reference.range.end)
+  }
+
+  /**
+   * 创建诊断，code.target 指向锚点所在的文档，供快速修复读取标题
+   */
+  private createDiagnostic(range: vscode.Range, message: string, code: string, target?: vscode.Uri): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning)
+    diagnostic.source = LINK_DIAGNOSTIC_SOURCE
+    diagnostic.code = target ? { value: code, target } : code
+    return diagnostic
+  }
+
+  dispose(): void {
+    for (const timeout of this._pendingValidations.values()) {
+      clearTimeout(timeout)
+    }
+    this._pendingValidations.clear()
+    this._externalLinkCache.clear()
+    this._renderer.dispose()
+    this._themeService.dispose()
+
+    while (this._disposables.length) {
+      this._disposables.pop()?.dispose()
+    }
+  }
+}
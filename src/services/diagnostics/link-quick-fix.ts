@@ -0,0 +1,108 @@
+import type { LinkDiagnostics } from './link-diagnostics'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { findClosestMatches } from '../../utils/fuzzy-match'
+import { isWholeLineRange, LINK_DIAGNOSTIC_SOURCE, LinkDiagnosticCode, readDocumentText } from './link-references'
+
+/** 查找候选文件时最多扫描的文件数 */
+const MAX_CANDIDATE_FILES = 2000
+
+const IMAGE_GLOB = '**/*.{png,jpg,jpeg,gif,svg,webp,bmp,ico,avif}'
+const MARKDOWN_GLOB = '**/*.{md,markdown}'
+
+/**
+ * 失效链接的快速修复
+ * 根据链接诊断的代码，建议工作区中名称最接近的文件或目标文档中最接近的标题
+ */
+export class LinkQuickFixProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  constructor(private readonly _linkDiagnostics: LinkDiagnostics) {}
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ): Promise<vscode.CodeAction[]> {
+    const actions: vscode.CodeAction[] = []
+
+    for (const diagnostic of context.diagnostics) {
+      // 链接地址未能定位时诊断覆盖整行，替换会连同链接文本一起覆盖
+      if (diagnostic.source !== LINK_DIAGNOSTIC_SOURCE || isWholeLineRange(document, diagnostic.range)) {
+        continue
+      }
+
+      const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code
+      const written = document.getText(diagnostic.range)
+      let suggestions: string[] = []
+
+      if (code === LinkDiagnosticCode.MissingHeading && typeof diagnostic.code === 'object') {
+        suggestions = await this.suggestHeadings(diagnostic.code.target, written)
+      }
+      else if (code === LinkDiagnosticCode.MissingFile || code === LinkDiagnosticCode.MissingImage) {
+        suggestions = await this.suggestFiles(document, written, code === LinkDiagnosticCode.MissingImage)
+      }
+
+      suggestions.forEach((suggestion, index) => {
+        const action = new vscode.CodeAction(`替换为 ${suggestion}`, vscode.CodeActionKind.QuickFix)
+        action.diagnostics = [diagnostic]
+        action.isPreferred = index === 0
+        action.edit = new vscode.WorkspaceEdit()
+        action.edit.replace(document.uri, diagnostic.range, suggestion)
+        actions.push(action)
+      })
+    }
+
+    return actions
+  }
+
+  /**
+   * 在目标文档的标题中查找与锚点最接近的 ID
+   */
+  private async suggestHeadings(target: vscode.Uri, fragment: string): Promise<string[]> {
+    const content = await readDocumentText(target)
+    if (content === undefined) {
+      return []
+    }
+
+    return findClosestMatches(this.decode(fragment), this._linkDiagnostics.getAnchorIds(content))
+  }
+
+  /**
+   * 在工作区中查找与链接路径最接近的同类文件，返回相对于当前文档的路径
+   */
+  private async suggestFiles(document: vscode.TextDocument, linkPath: string, isImage: boolean): Promise<string[]> {
+    const extension = path.posix.extname(linkPath).toLowerCase()
+    const glob = isImage
+      ? IMAGE_GLOB
+      : /^\.(?:md|markdown)$/.test(extension) || !extension ? MARKDOWN_GLOB : `**/*${extension}`
+
+    const files = await vscode.workspace.findFiles(glob, '**/node_modules/**', MAX_CANDIDATE_FILES)
+    const documentDir = path.posix.dirname(document.uri.path)
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.path
+
+    // 以 / 开头的链接相对于工作区根目录，其余相对于当前文档
+    const fromRoot = linkPath.startsWith('/') && workspaceRoot
+    const candidates = files
+      .filter(file => file.toString() !== document.uri.toString())
+      .map((file) => {
+        if (fromRoot) {
+          return `/${path.posix.relative(workspaceRoot, file.path)}`
+        }
+        const relativePath = path.posix.relative(documentDir, file.path)
+        return linkPath.startsWith('./') && !relativePath.startsWith('../') ? `./${relativePath}` : relativePath
+      })
+
+    return findClosestMatches(this.decode(linkPath), candidates)
+      .map(candidate => candidate.replace(/ /g, '%20'))
+  }
+
+  private decode(text: string): string {
+    try {
+      return decodeURIComponent(text)
+    }
+    catch {
+      return text
+    }
+  }
+}
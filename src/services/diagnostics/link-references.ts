@@ -0,0 +1,203 @@
+import type { Token } from 'markdown-it'
+import * as vscode from 'vscode'
+
+/**
+ * 链接诊断使用的诊断来源名称
+ */
+export const LINK_DIAGNOSTIC_SOURCE = 'Shiki Markdown Preview'
+
+/**
+ * 链接诊断的错误代码，快速修复根据代码决定给出哪类建议
+ */
+export const LinkDiagnosticCode = {
+  MissingFile: 'missing-file',
+  MissingImage: 'missing-image',
+  MissingHeading: 'missing-heading',
+  UnreachableUrl: 'unreachable-url',
+} as const
+
+/**
+ * 源码中的一处链接或图片引用
+ */
+export interface LinkReference {
+  kind: 'link' | 'image'
+  /** 源码中书写的链接地址，找不到原文时为解析后的地址 */
+  href: string
+  /** 链接地址在源码中的范围 */
+  range: vscode.Range
+  /** 是否精确定位到链接地址，否则 range 为链接所在的整行 */
+  exact: boolean
+}
+
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i
+
+// 内联链接、尖括号链接和引用定义中，链接地址前面可能出现的文本
+const HREF_PREFIXES = ['](', '](<', ']: ', ']: <']
+
+/**
+ * 是否为带协议（http:、mailto: 等）或协议相对的链接
+ */
+export function isExternalHref(href: string): boolean {
+  return SCHEME_PATTERN.test(href) || href.startsWith('//')
+}
+
+/**
+ * 拆分链接中的路径与锚点，忽略查询参数
+ */
+export function splitHref(href: string): { path: string, fragment: string | undefined } {
+  const hashIndex = href.indexOf('#')
+  const pathWithQuery = hashIndex === -1 ? href : href.slice(0, hashIndex)
+  const queryIndex = pathWithQuery.indexOf('?')
+
+  return {
+    path: queryIndex === -1 ? pathWithQuery : pathWithQuery.slice(0, queryIndex),
+    fragment: hashIndex === -1 ? undefined : href.slice(hashIndex + 1),
+  }
+}
+
+/**
+ * 将链接路径解析为文件 URI，以 / 开头的路径相对于工作区根目录
+ * @returns 路径编码非法时返回 undefined
+ */
+export function resolveLinkPath(document: vscode.TextDocument, linkPath: string): vscode.Uri | undefined {
+  let decodedPath: string
+  try {
+    decodedPath = decodeURIComponent(linkPath)
+  }
+  catch {
+    return undefined
+  }
+
+  if (decodedPath.startsWith('/')) {
+    const root = vscode.workspace.getWorkspaceFolder(document.uri)?.uri ?? vscode.Uri.joinPath(document.uri, '..')
+    return vscode.Uri.joinPath(root, decodedPath)
+  }
+  return vscode.Uri.joinPath(document.uri, '..', decodedPath)
+}
+
+/**
+ * 读取目标文件内容，优先使用已打开文档中未保存的内容
+ */
+export async function readDocumentText(uri: vscode.Uri): Promise<string | undefined> {
+  const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString())
+  if (openDocument) {
+    return openDocument.getText()
+  }
+
+  try {
+    return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * 提取源码中 HTML 元素声明的 id / name，它们同样可以作为锚点
+ */
+export function extractHtmlAnchorIds(content: string): string[] {
+  return [...content.matchAll(/<[a-z][^>]*?\s(?:id|name)\s*=\s*["']([^"']+)["']/gi)].map(match => match[1])
+}
+
+/**
+ * 诊断范围是否为链接所在的整行，即链接地址未能在源码中定位
+ * 精确定位的地址前面总有 ]( 或 ]: 等文本，不会占满一整行
+ */
+export function isWholeLineRange(document: vscode.TextDocument, range: vscode.Range): boolean {
+  return range.isEqual(document.lineAt(range.start.line).range)
+}
+
+/**
+ * 从 token 流中收集所有链接和图片，并定位它们在源码中的范围
+ * @param document 源文档
+ * @param tokens MarkdownRenderer 解析出的 token
+ * @param sourceLineOffset 正文在源文件中的起始行（front matter 之后）
+ */
+export function collectLinkReferences(document: vscode.TextDocument, tokens: Token[], sourceLineOffset: number): LinkReference[] {
+  const text = document.getText()
+  const references: LinkReference[] = []
+
+  for (const token of tokens) {
+    if (token.type !== 'inline' || !token.map || !token.children) {
+      continue
+    }
+
+    const startLine = Math.min(token.map[0] + sourceLineOffset, document.lineCount - 1)
+    const endLine = token.map[1] + sourceLineOffset
+    const blockEnd = endLine >= document.lineCount ? text.length : document.offsetAt(new vscode.Position(endLine, 0))
+    let cursor = document.offsetAt(new vscode.Position(startLine, 0))
+
+    for (const child of token.children) {
+      const kind = child.type === 'image' ? 'image' : child.type === 'link_open' ? 'link' : undefined
+      // 自动识别的网址不需要检查
+      if (!kind || child.markup === 'linkify' || child.markup === 'autolink') {
+        continue
+      }
+
+      const href = child.attrGet(kind === 'image' ? 'src' : 'href')
+      if (!href) {
+        continue
+      }
+
+      const location = locateHref(text, href, cursor, blockEnd)
+      if (location) {
+        const end = location.start + location.text.length
+        // 引用定义位于块外，不影响块内后续链接的查找位置
+        if (location.start >= cursor && location.start < blockEnd) {
+          cursor = end
+        }
+        references.push({
+          kind,
+          href: location.text,
+          range: new vscode.Range(document.positionAt(location.start), document.positionAt(end)),
+          exact: true,
+        })
+      }
+      else {
+        references.push({ kind, href, range: document.lineAt(startLine).range, exact: false })
+      }
+    }
+  }
+
+  return references
+}
+
+/**
+ * 在源码中查找链接地址，先在所在块内查找内联链接，再查找引用定义
+ * markdown-it 会对地址做百分号编码，因此同时尝试解码后的写法
+ */
+function locateHref(text: string, href: string, blockStart: number, blockEnd: number): { start: number, text: string } | undefined {
+  const candidates = new Set([href])
+  try {
+    candidates.add(decodeURI(href))
+  }
+  catch {
+    // 非法编码时只按原样查找
+  }
+
+  // 取块内最靠前的匹配，避免匹配到同一块中后面的链接
+  let closest: { start: number, text: string } | undefined
+  for (const candidate of candidates) {
+    for (const prefix of HREF_PREFIXES) {
+      const index = text.indexOf(prefix + candidate, blockStart)
+      if (index >= 0 && index < blockEnd && (!closest || index + prefix.length < closest.start)) {
+        closest = { start: index + prefix.length, text: candidate }
+      }
+    }
+  }
+  if (closest) {
+    return closest
+  }
+
+  // 引用式链接的地址写在文档其他位置的定义中
+  for (const candidate of candidates) {
+    for (const prefix of HREF_PREFIXES.slice(2)) {
+      const index = text.indexOf(prefix + candidate)
+      if (index >= 0) {
+        return { start: index + prefix.length, text: candidate }
+      }
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,67 @@
+import type { RenderError } from '../renderer/markdown-renderer'
+import * as vscode from 'vscode'
+
+const SOURCE_NAMES: Record<RenderError['source'], string> = {
+  katex: 'KaTeX',
+  mermaid: 'Mermaid',
+  frontMatter: 'Front Matter',
+}
+
+/**
+ * 公式、图表和 front matter 错误诊断
+ * 预览渲染时收集 KaTeX 和 front matter 错误，webview 回传 Mermaid 错误，按来源分别更新，修复后自动清除
+ */
+export class RenderDiagnostics {
+  private static _collection: vscode.DiagnosticCollection | undefined
+  private static readonly _errors = new Map<string, Map<RenderError['source'], RenderError[]>>()
+
+  /**
+   * 更新文档中某一来源的全部错误
+   */
+  static update(document: vscode.TextDocument, source: RenderError['source'], errors: RenderError[]): void {
+    const key = document.uri.toString()
+    const errorsBySource = this._errors.get(key) ?? new Map<RenderError['source'], RenderError[]>()
+    if (errors.length) {
+      errorsBySource.set(source, errors)
+    }
+    else {
+      errorsBySource.delete(source)
+    }
+
+    // 没有任何错误时不创建诊断集合
+    if (!errorsBySource.size) {
+      this._errors.delete(key)
+      this._collection?.delete(document.uri)
+      return
+    }
+
+    this._errors.set(key, errorsBySource)
+    this._collection ??= vscode.languages.createDiagnosticCollection('shikiMarkdownPreview.render')
+    this._collection.set(document.uri, [...errorsBySource.values()].flat().map(error => this.createDiagnostic(document, error)))
+  }
+
+  /**
+   * 清除文档的所有渲染错误，预览关闭或切换到其他文档时调用
+   */
+  static clear(uri: vscode.Uri): void {
+    this._errors.delete(uri.toString())
+    this._collection?.delete(uri)
+  }
+
+  private static createDiagnostic(document: vscode.TextDocument, error: RenderError): vscode.Diagnostic {
+    const line = Math.min(Math.max(error.line, 0), document.lineCount - 1)
+    const diagnostic = new vscode.Diagnostic(
+      document.lineAt(line).range,
+      error.message,
+      error.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+    )
+    diagnostic.source = SOURCE_NAMES[error.source]
+    return diagnostic
+  }
+
+  static dispose(): void {
+    this._errors.clear()
+    this._collection?.dispose()
+    this._collection = undefined
+  }
+}
@@ -0,0 +1,92 @@
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { hasMathExpressions } from '../../utils/math-detector'
+import { ConfigService } from '../config'
+import { MarkdownPreviewPanel } from '../renderer/markdown-preview'
+import { MarkdownRenderer } from '../renderer/markdown-renderer'
+import { ThemeService } from '../theme'
+import { inlineLocalImages } from './image-inliner'
+import { inlineKatexFonts } from './katex-fonts'
+import { generateStandaloneHTML } from './standalone-template'
+
+/**
+ * 读取扩展自带的 webview 资源文本
+ */
+export async function readWebviewAsset(extensionUri: vscode.Uri, relativePath: string): Promise<string> {
+  const assetUri = vscode.Uri.joinPath(extensionUri, 'src/webview', relativePath)
+  return new TextDecoder().decode(await vscode.workspace.fs.readFile(assetUri))
+}
+
+/**
+ * 将 Markdown 文档导出为可离线打开的独立 HTML 文件
+ */
+export class HtmlExporter {
+  private readonly _extensionUri: vscode.Uri
+  private readonly _configService = new ConfigService()
+
+  constructor(extensionUri: vscode.Uri) {
+    this._extensionUri = extensionUri
+  }
+
+  /**
+   * 导出文档到指定文件
+   */
+  async exportDocument(document: vscode.TextDocument, targetUri: vscode.Uri): Promise<void> {
+    const html = await this.renderDocument(document)
+    await vscode.workspace.fs.writeFile(targetUri, new TextEncoder().encode(html))
+  }
+
+  /**
+   * 渲染文档为独立 HTML 字符串
+   */
+  async renderDocument(document: vscode.TextDocument): Promise<string> {
+    const themeService = new ThemeService()
+    const markdownRenderer = new MarkdownRenderer(themeService)
+
+    try {
+      await themeService.initializeHighlighter()
+      markdownRenderer.initialize()
+
+      // 已打开预览时沿用预览当前的主题，保证导出效果与预览一致
+      const previewTheme = MarkdownPreviewPanel.getPanel(document.uri)?.themeService.currentTheme
+      if (previewTheme && previewTheme !== themeService.currentTheme) {
+        await themeService.updateThemeForPreview(previewTheme)
+      }
+
+      const content = document.getText()
+      const frontMatterData = markdownRenderer.getFrontMatterData(content)
+      const renderedContent = await markdownRenderer.render(content, document)
+      const inlinedContent = await inlineLocalImages(renderedContent, document.uri)
+
+      const inlineStyles = [await readWebviewAsset(this._extensionUri, 'style.css')]
+      if (hasMathExpressions(content)) {
+        inlineStyles.push(await inlineKatexFonts(await readWebviewAsset(this._extensionUri, 'katex.min.css')))
+      }
+
+      // Mermaid 图表需要在浏览器中渲染，仅在文档包含图表时内联
+      const inlineScripts: string[] = []
+      if (inlinedContent.includes('language-mermaid')) {
+        inlineScripts.push(
+          await readWebviewAsset(this._extensionUri, 'modules/mermaid.min.js'),
+          await readWebviewAsset(this._extensionUri, 'modules/mermaid-renderer.js'),
+          'window.addEventListener(\'DOMContentLoaded\', () => window.renderMermaidDiagrams())',
+        )
+      }
+
+      return generateStandaloneHTML({
+        content: inlinedContent,
+        title: frontMatterData?.title || path.basename(document.fileName),
+        themeCSSVariables: await themeService.getThemeCSSVariables(),
+        markdownThemeType: await themeService.refreshCurrentThemeType(),
+        documentWidth: this._configService.getDocumentWidth(),
+        fontFamily: this._configService.getFontFamily(),
+        inlineStyles,
+        inlineScripts,
+      })
+    }
+    finally {
+      markdownRenderer.dispose()
+      themeService.dispose()
+    }
+  }
+}
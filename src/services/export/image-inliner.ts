@@ -0,0 +1,90 @@
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { ErrorHandler } from '../../utils/error-handler'
+
+/**
+ * 图片扩展名与 MIME 类型映射，用于生成 data URI
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.avif': 'image/avif',
+}
+
+/**
+ * 将渲染结果中的本地图片替换为 data URI，远程图片保持原样
+ * @param html 渲染后的 HTML
+ * @param documentUri 图片相对路径所基于的文档
+ */
+export async function inlineLocalImages(html: string, documentUri: vscode.Uri): Promise<string> {
+  const imagePattern = /(<img\b[^>]*?\ssrc=")([^"]+)(")/gi
+  const sources = new Set<string>()
+  for (const match of html.matchAll(imagePattern)) {
+    sources.add(match[2])
+  }
+
+  const dataUris = new Map<string, string>()
+  for (const source of sources) {
+    const dataUri = await toDataUri(source, documentUri)
+    if (dataUri) {
+      dataUris.set(source, dataUri)
+    }
+  }
+
+  return html.replace(imagePattern, (match, prefix: string, source: string, suffix: string) => {
+    const dataUri = dataUris.get(source)
+    return dataUri ? `${prefix}${dataUri}${suffix}` : match
+  })
+}
+
+/**
+ * 读取本地图片并转换为 data URI
+ */
+async function toDataUri(source: string, documentUri: vscode.Uri): Promise<string | undefined> {
+  if (/^(?:https?:|data:)/i.test(source)) {
+    return undefined
+  }
+
+  const imageUri = resolveImageUri(source.replace(/&amp;/g, '&'), documentUri)
+  const mimeType = imageUri && IMAGE_MIME_TYPES[path.extname(imageUri.path).toLowerCase()]
+  if (!imageUri || !mimeType) {
+    return undefined
+  }
+
+  try {
+    const data = await vscode.workspace.fs.readFile(imageUri)
+    return `data:${mimeType};base64,${Buffer.from(data).toString('base64')}`
+  }
+  catch (error) {
+    ErrorHandler.logWarning(`导出时图片读取失败: ${source} (${error instanceof Error ? error.message : String(error)})`, 'ImageInliner')
+    return undefined
+  }
+}
+
+/**
+ * 解析图片地址，支持 file URI、绝对路径与相对文档的路径
+ */
+function resolveImageUri(source: string, documentUri: vscode.Uri): vscode.Uri | undefined {
+  try {
+    if (source.startsWith('file:')) {
+      return vscode.Uri.parse(source)
+    }
+
+    const imagePath = decodeURIComponent(source.split(/[?#]/)[0])
+    if (path.isAbsolute(imagePath)) {
+      return vscode.Uri.file(imagePath)
+    }
+
+    return vscode.Uri.joinPath(documentUri, '..', imagePath)
+  }
+  catch {
+    return undefined
+  }
+}
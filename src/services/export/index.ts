@@ -0,0 +1,5 @@
+export * from './html-exporter'
+export * from './image-inliner'
+export * from './katex-fonts'
+export * from './site-exporter'
+export * from './standalone-template'
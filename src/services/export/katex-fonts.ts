@@ -0,0 +1,41 @@
+import { Buffer } from 'node:buffer'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { Logger } from '../../utils/logger'
+
+/**
+ * 将 katex.min.css 中引用的字体替换为 data URI，使导出的文件不依赖旁边的 fonts 目录
+ * 只内联 woff2 格式，其余格式的备用地址被移除
+ * 不使用 VS Code API，命令行渲染也可以使用
+ * @param css katex.min.css 的内容
+ */
+export async function inlineKatexFonts(css: string): Promise<string> {
+  const fontPattern = /url\(fonts\/([\w-]+\.woff2)\)/g
+  const fontNames = new Set([...css.matchAll(fontPattern)].map(match => match[1]))
+
+  const dataUris = new Map<string, string>()
+  for (const fontName of fontNames) {
+    try {
+      const data = await fs.readFile(path.join(getKatexFontsDir(), fontName))
+      dataUris.set(fontName, `data:font/woff2;base64,${Buffer.from(data).toString('base64')}`)
+    }
+    catch (error) {
+      Logger.logWarning(`KaTeX 字体读取失败: ${fontName} (${error instanceof Error ? error.message : String(error)})`, 'KatexFonts')
+      return css
+    }
+  }
+
+  return css
+    .replace(fontPattern, (match, fontName: string) => {
+      const dataUri = dataUris.get(fontName)
+      return dataUri ? `url(${dataUri})` : match
+    })
+    .replace(/,url\(fonts\/[^)]+\) format\("[^"]+"\)/g, '')
+}
+
+/**
+ * KaTeX 安装包中的字体目录
+ */
+function getKatexFontsDir(): string {
+  return path.join(path.dirname(require.resolve('katex/package.json')), 'dist', 'fonts')
+}
@@ -0,0 +1,175 @@
+import type { MarkdownRenderEnv, RenderedHeading } from '../renderer/markdown-renderer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { escapeHtml } from '../../utils/common'
+import { ErrorHandler } from '../../utils/error-handler'
+import { hasMathExpressions } from '../../utils/math-detector'
+import { ConfigService } from '../config'
+import { MarkdownRenderer } from '../renderer/markdown-renderer'
+import { ThemeService } from '../theme'
+import { readWebviewAsset } from './html-exporter'
+import { inlineLocalImages } from './image-inliner'
+import { inlineKatexFonts } from './katex-fonts'
+import { generateStandaloneHTML } from './standalone-template'
+
+/**
+ * 站点共享资源所在目录
+ */
+const ASSETS_DIR = 'assets'
+
+/**
+ * 侧边栏中展示的最大标题层级
+ */
+const SIDEBAR_MAX_LEVEL = 3
+
+/**
+ * 单个页面的渲染结果
+ */
+interface RenderedPage {
+  relativePath: string
+  title: string
+  content: string
+  headings: RenderedHeading[]
+  hasMath: boolean
+  hasMermaid: boolean
+}
+
+/**
+ * 将文件夹中的 Markdown 文件导出为带主题的静态站点
+ */
+export class SiteExporter {
+  private readonly _extensionUri: vscode.Uri
+  private readonly _configService = new ConfigService()
+
+  constructor(extensionUri: vscode.Uri) {
+    this._extensionUri = extensionUri
+  }
+
+  /**
+   * 导出文件夹，返回生成的页面数量
+   */
+  async exportFolder(folderUri: vscode.Uri, outputUri: vscode.Uri): Promise<number> {
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(folderUri, '**/*.{md,markdown}'),
+      '**/node_modules/**',
+    )
+    if (files.length === 0) {
+      return 0
+    }
+
+    const themeService = new ThemeService()
+    const markdownRenderer = new MarkdownRenderer(themeService)
+
+    try {
+      await themeService.initializeHighlighter()
+      markdownRenderer.initialize()
+
+      const pages: RenderedPage[] = []
+      for (const fileUri of files) {
+        const page = await this.renderPage(markdownRenderer, folderUri, fileUri)
+        if (page) {
+          pages.push(page)
+        }
+      }
+
+      await this.writeAssets(outputUri, await themeService.getThemeCSSVariables(), pages)
+
+      const markdownThemeType = await themeService.refreshCurrentThemeType()
+      for (const page of pages) {
+        await this.writePage(outputUri, page, markdownThemeType)
+      }
+
+      return pages.length
+    }
+    finally {
+      markdownRenderer.dispose()
+      themeService.dispose()
+    }
+  }
+
+  /**
+   * 渲染单个页面，失败时记录日志并跳过
+   */
+  private async renderPage(markdownRenderer: MarkdownRenderer, folderUri: vscode.Uri, fileUri: vscode.Uri): Promise<RenderedPage | undefined> {
+    try {
+      const document = await vscode.workspace.openTextDocument(fileUri)
+      const content = document.getText()
+      const env: MarkdownRenderEnv = { rewriteMarkdownLinks: true }
+      const renderedContent = await markdownRenderer.render(content, document, env)
+      const frontMatterData = markdownRenderer.getFrontMatterData(content)
+
+      return {
+        relativePath: path.posix.relative(folderUri.path, fileUri.path),
+        title: frontMatterData?.title || env.headings?.find(heading => heading.level === 1)?.text || path.basename(fileUri.path),
+        content: await inlineLocalImages(renderedContent, fileUri),
+        headings: env.headings ?? [],
+        hasMath: hasMathExpressions(content),
+        hasMermaid: renderedContent.includes('language-mermaid'),
+      }
+    }
+    catch (error) {
+      ErrorHandler.logError(`站点页面渲染失败: ${fileUri.fsPath}`, error, 'SiteExporter')
+      return undefined
+    }
+  }
+
+  /**
+   * 写入所有页面共享的样式与脚本
+   */
+  private async writeAssets(outputUri: vscode.Uri, themeCSSVariables: string, pages: RenderedPage[]): Promise<void> {
+    const styles = [
+      await readWebviewAsset(this._extensionUri, 'style.css'),
+      await readWebviewAsset(this._extensionUri, 'export-site.css'),
+      `:root {\n  ${themeCSSVariables}\n}`,
+    ]
+    if (pages.some(page => page.hasMath)) {
+      styles.push(await inlineKatexFonts(await readWebviewAsset(this._extensionUri, 'katex.min.css')))
+    }
+    await this.writeTextFile(vscode.Uri.joinPath(outputUri, ASSETS_DIR, 'site.css'), styles.join('\n'))
+
+    if (pages.some(page => page.hasMermaid)) {
+      const mermaidScripts = [
+        await readWebviewAsset(this._extensionUri, 'modules/mermaid.min.js'),
+        await readWebviewAsset(this._extensionUri, 'modules/mermaid-renderer.js'),
+      ]
+      await this.writeTextFile(vscode.Uri.joinPath(outputUri, ASSETS_DIR, 'mermaid.js'), mermaidScripts.join('\n'))
+    }
+  }
+
+  /**
+   * 写入单个页面
+   */
+  private async writePage(outputUri: vscode.Uri, page: RenderedPage, markdownThemeType: 'light' | 'dark'): Promise<void> {
+    const htmlPath = page.relativePath.replace(/\.(?:md|markdown)$/i, '.html')
+    const assetsPrefix = path.posix.relative(path.posix.dirname(htmlPath), ASSETS_DIR)
+
+    const html = generateStandaloneHTML({
+      content: page.content,
+      title: page.title,
+      markdownThemeType,
+      documentWidth: this._configService.getDocumentWidth(),
+      fontFamily: this._configService.getFontFamily(),
+      stylesheets: [`${assetsPrefix}/site.css`],
+      scripts: page.hasMermaid ? [`${assetsPrefix}/mermaid.js`] : [],
+      inlineScripts: page.hasMermaid ? ['window.addEventListener(\'DOMContentLoaded\', () => window.renderMermaidDiagrams())'] : [],
+      sidebar: this.generateSidebar(page),
+    })
+
+    await this.writeTextFile(vscode.Uri.joinPath(outputUri, htmlPath), html)
+  }
+
+  /**
+   * 根据页面标题生成侧边栏
+   */
+  private generateSidebar(page: RenderedPage): string {
+    const items = page.headings
+      .filter(heading => heading.level <= SIDEBAR_MAX_LEVEL && heading.id)
+      .map(heading => `<li class="site-sidebar-level-${heading.level}"><a href="#${encodeURIComponent(heading.id)}" title="${escapeHtml(heading.text)}">${escapeHtml(heading.text)}</a></li>`)
+
+    return `<p class="site-sidebar-title">${escapeHtml(page.title)}</p>\n<ul>\n${items.join('\n')}\n</ul>`
+  }
+
+  private async writeTextFile(fileUri: vscode.Uri, content: string): Promise<void> {
+    await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(content))
+  }
+}
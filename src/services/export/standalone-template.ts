@@ -0,0 +1,73 @@
+import { escapeHtml } from '../../utils/common'
+
+export interface StandaloneHTMLOptions {
+  content: string
+  title?: string
+  themeCSSVariables?: string
+  markdownThemeType?: 'light' | 'dark'
+  documentWidth?: string
+  fontFamily?: string
+  /** 直接内联到页面的样式表内容 */
+  inlineStyles?: string[]
+  /** 直接内联到页面的脚本内容 */
+  inlineScripts?: string[]
+  /** 通过 link 引用的外部样式表地址 */
+  stylesheets?: string[]
+  /** 通过 script 引用的外部脚本地址 */
+  scripts?: string[]
+  /** 页面侧边栏 HTML */
+  sidebar?: string
+}
+
+/**
+ * 生成不依赖 VS Code Webview API 的独立 HTML 页面
+ */
+export function generateStandaloneHTML(options: StandaloneHTMLOptions): string {
+  const {
+    content,
+    title = 'Markdown Preview',
+    themeCSSVariables = '',
+    markdownThemeType = 'dark',
+    documentWidth = '800px',
+    fontFamily = 'inherit',
+    inlineStyles = [],
+    inlineScripts = [],
+    stylesheets = [],
+    scripts = [],
+    sidebar,
+  } = options
+
+  const styleTags = [
+    ...stylesheets.map(href => `<link rel="stylesheet" href="${escapeHtml(href)}">`),
+    ...inlineStyles.map(style => `<style>\n${style}\n</style>`),
+  ].join('\n')
+  const scriptTags = [
+    ...scripts.map(src => `<script src="${escapeHtml(src)}"></script>`),
+    ...inlineScripts.map(script => `<script>\n${script.replace(/<\/script/gi, '<\\/script')}\n</script>`),
+  ].join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en" data-markdown-theme-type="${markdownThemeType}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+${styleTags}
+<style>
+:root {
+  ${themeCSSVariables}
+  --document-width: ${documentWidth};
+  --font-family: ${fontFamily};
+}
+</style>
+<title>${escapeHtml(title)}</title>
+</head>
+<body${sidebar ? ' class="has-site-sidebar"' : ''}>
+${sidebar ? `<nav class="site-sidebar">\n${sidebar}\n</nav>` : ''}
+<div class="container" id="markdown-content">
+${content}
+</div>
+${scriptTags}
+</body>
+</html>
+`
+}
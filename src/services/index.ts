@@ -1,5 +1,11 @@
 export * from './config'
+export * from './diagnostics'
+export * from './export'
+export * from './outline'
+export * from './plugins'
+export * from './presentation'
 export * from './renderer'
 export * from './scroll-sync'
 export * from './state'
 export * from './theme'
+export * from './toc'
@@ -0,0 +1,233 @@
+import type { RenderedHeading } from '../renderer/markdown-renderer'
+import * as vscode from 'vscode'
+import { MarkdownPreviewPanel } from '../renderer/markdown-preview'
+
+/**
+ * 大纲中的一个标题节点
+ */
+export interface OutlineNode {
+  heading: RenderedHeading
+  parent: OutlineNode | undefined
+  children: OutlineNode[]
+}
+
+/**
+ * 预览大纲视图
+ * 按层级列出活动预览中渲染出的标题，点击节点同时滚动编辑器和预览，并高亮预览当前所在的章节
+ */
+export class OutlineProvider implements vscode.TreeDataProvider<OutlineNode>, vscode.Disposable {
+  static readonly viewId = 'shikiMarkdownPreview.outline'
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<OutlineNode | undefined>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  private readonly _treeView: vscode.TreeView<OutlineNode>
+  private _disposables: vscode.Disposable[] = []
+
+  private _panel: MarkdownPreviewPanel | undefined
+  private _headings: RenderedHeading[] = []
+  private _roots: OutlineNode[] = []
+  private _nodes: OutlineNode[] = []
+  private _currentNode: OutlineNode | undefined
+  private _filter = ''
+
+  constructor() {
+    this._treeView = vscode.window.createTreeView(OutlineProvider.viewId, {
+      treeDataProvider: this,
+      showCollapseAll: true,
+    })
+
+    this._disposables.push(
+      this._treeView,
+      this._onDidChangeTreeData,
+      MarkdownPreviewPanel.onDidUpdateOutline(() => this.update()),
+      // 视图隐藏期间不跟随高亮，重新显示时补上
+      this._treeView.onDidChangeVisibility(() => this.updateCurrentNode(true)),
+    )
+
+    this.update()
+  }
+
+  getTreeItem(node: OutlineNode): vscode.TreeItem {
+    const { heading } = node
+    const item = new vscode.TreeItem(
+      heading.text || heading.id,
+      node.children.length
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None,
+    )
+
+    // 过滤时使用不同的 id，使匹配结果所在的分支全部展开
+    item.id = this._filter ? `filter:${this._filter}:${heading.id}` : heading.id
+    item.description = `H${heading.level}`
+    item.tooltip = `#${heading.id}`
+    item.iconPath = node === this._currentNode
+      ? new vscode.ThemeIcon('debug-stackframe', new vscode.ThemeColor('list.highlightForeground'))
+      : new vscode.ThemeIcon('symbol-string')
+    item.command = {
+      command: 'shikiMarkdownPreview.revealOutlineHeading',
+      title: 'Reveal Heading',
+      arguments: [heading.line],
+    }
+    return item
+  }
+
+  getChildren(node?: OutlineNode): OutlineNode[] {
+    return node ? node.children : this._roots
+  }
+
+  getParent(node: OutlineNode): OutlineNode | undefined {
+    return node.parent
+  }
+
+  /**
+   * 弹出输入框，按标题文本过滤大纲，输入时实时更新
+   */
+  filter(): void {
+    const inputBox = vscode.window.createInputBox()
+    inputBox.placeholder = '输入标题文本过滤大纲'
+    inputBox.value = this._filter
+
+    const previousFilter = this._filter
+    let accepted = false
+    inputBox.onDidChangeValue(value => this.setFilter(value))
+    inputBox.onDidAccept(() => {
+      accepted = true
+      inputBox.hide()
+    })
+    inputBox.onDidHide(() => {
+      if (!accepted) {
+        this.setFilter(previousFilter)
+      }
+      inputBox.dispose()
+    })
+    inputBox.show()
+  }
+
+  clearFilter(): void {
+    this.setFilter('')
+  }
+
+  /**
+   * 滚动编辑器和预览到标题所在行
+   */
+  async revealHeading(line: number): Promise<void> {
+    const previewPanel = this._panel
+    const document = previewPanel?.currentDocument
+    if (!previewPanel || !document) {
+      return
+    }
+
+    previewPanel.revealLine(line)
+
+    const editor = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === document.uri.toString())
+      ?? await vscode.window.showTextDocument(document, { preserveFocus: true, preview: false })
+    const position = new vscode.Position(Math.min(line, document.lineCount - 1), 0)
+    editor.selection = new vscode.Selection(position, position)
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop)
+  }
+
+  private setFilter(filter: string): void {
+    this._filter = filter.trim()
+    this._treeView.message = this._filter ? `过滤: ${this._filter}` : undefined
+    void vscode.commands.executeCommand('setContext', 'shikiMarkdownPreview.outlineFiltered', !!this._filter)
+    this.rebuild()
+  }
+
+  /**
+   * 活动预览或其标题变化时重建大纲，否则只更新当前章节
+   */
+  private update(): void {
+    const previewPanel = MarkdownPreviewPanel.activePanel
+    const headings = previewPanel?.headings ?? []
+    if (previewPanel !== this._panel || headings !== this._headings) {
+      this._panel = previewPanel
+      this._headings = headings
+      this.rebuild()
+      return
+    }
+    this.updateCurrentNode()
+  }
+
+  private rebuild(): void {
+    const filter = this._filter.toLowerCase()
+    const roots: OutlineNode[] = []
+    const nodes: OutlineNode[] = []
+    const stack: OutlineNode[] = []
+
+    for (const heading of this._headings) {
+      while (stack.length && stack[stack.length - 1].heading.level >= heading.level) {
+        stack.pop()
+      }
+
+      const parent = stack.at(-1)
+      const node: OutlineNode = { heading, parent, children: [] }
+      if (parent) {
+        parent.children.push(node)
+      }
+      else {
+        roots.push(node)
+      }
+      nodes.push(node)
+      stack.push(node)
+    }
+
+    this._roots = filter ? this.filterNodes(roots, filter) : roots
+    this._nodes = nodes
+    this._currentNode = undefined
+    this._onDidChangeTreeData.fire(undefined)
+    this.updateCurrentNode(true)
+  }
+
+  /**
+   * 保留文本匹配的标题及其祖先，匹配标题的子标题全部保留
+   */
+  private filterNodes(nodes: OutlineNode[], filter: string): OutlineNode[] {
+    return nodes.filter((node) => {
+      if (node.heading.text.toLowerCase().includes(filter)) {
+        return true
+      }
+      node.children = this.filterNodes(node.children, filter)
+      return node.children.length > 0
+    })
+  }
+
+  /**
+   * 将预览当前位置之前最近的标题标记为当前章节
+   */
+  private updateCurrentNode(force: boolean = false): void {
+    const visibleLine = this._panel?.visibleLine
+    const currentNode = visibleLine === undefined
+      ? undefined
+      : this._nodes.findLast(node => node.heading.line <= visibleLine && this.isShown(node))
+    if (currentNode === this._currentNode && !force) {
+      return
+    }
+
+    const previousNode = this._currentNode
+    this._currentNode = currentNode
+    if (previousNode && previousNode !== currentNode) {
+      this._onDidChangeTreeData.fire(previousNode)
+    }
+    if (currentNode) {
+      this._onDidChangeTreeData.fire(currentNode)
+      if (this._treeView.visible) {
+        void this._treeView.reveal(currentNode, { select: true, focus: false })
+      }
+    }
+  }
+
+  /**
+   * 节点是否仍在过滤后的树中
+   */
+  private isShown(node: OutlineNode): boolean {
+    const siblings = node.parent ? node.parent.children : this._roots
+    return siblings.includes(node) && (!node.parent || this.isShown(node.parent))
+  }
+
+  dispose(): void {
+    while (this._disposables.length) {
+      this._disposables.pop()?.dispose()
+    }
+  }
+}
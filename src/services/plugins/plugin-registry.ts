@@ -0,0 +1,170 @@
+import type MarkdownIt from 'markdown-it'
+import type { MarkdownItExtender, PostRenderContext, PostRenderHook, ShikiMarkdownPreviewApi } from '../../types/api'
+import * as vscode from 'vscode'
+import { ErrorHandler } from '../../utils/error-handler'
+import { ConfigService } from '../config'
+
+/**
+ * 来源于其他扩展 contributes 的资源
+ */
+interface ContributedResources {
+  extenders: MarkdownItExtender[]
+  scripts: vscode.Uri[]
+  styles: vscode.Uri[]
+  roots: vscode.Uri[]
+}
+
+/**
+ * 预览扩展注册中心
+ * 汇总通过公共 API 注册以及通过 markdown.markdownItPlugins 贡献点提供的插件、脚本、样式和后处理钩子
+ */
+export class PluginRegistry {
+  private static readonly _extenders = new Set<MarkdownItExtender>()
+  private static readonly _scripts = new Set<vscode.Uri>()
+  private static readonly _styles = new Set<vscode.Uri>()
+  private static readonly _postRenderHooks = new Set<PostRenderHook>()
+  private static readonly _onDidChange = new vscode.EventEmitter<void>()
+
+  private static _contributed: ContributedResources = { extenders: [], scripts: [], styles: [], roots: [] }
+
+  /**
+   * 注册内容发生变化时触发，预览需要重建渲染器并整页刷新
+   */
+  static readonly onDidChange = PluginRegistry._onDidChange.event
+
+  /**
+   * 创建提供给其他扩展的公共 API
+   */
+  static createApi(): ShikiMarkdownPreviewApi {
+    return {
+      registerMarkdownItPlugin: (plugin, ...params) =>
+        PluginRegistry.register(PluginRegistry._extenders, (md: MarkdownIt) => md.use(plugin, ...params)),
+      extendMarkdownIt: extender => PluginRegistry.register(PluginRegistry._extenders, extender),
+      registerWebviewScript: scriptUri => PluginRegistry.register(PluginRegistry._scripts, scriptUri),
+      registerWebviewStyle: styleUri => PluginRegistry.register(PluginRegistry._styles, styleUri),
+      registerPostRenderHook: hook => PluginRegistry.register(PluginRegistry._postRenderHooks, hook),
+    }
+  }
+
+  /**
+   * 是否注册了 markdown-it 插件，这些插件只能在扩展进程中运行
+   */
+  static get hasMarkdownItPlugins(): boolean {
+    return PluginRegistry._contributed.extenders.length > 0 || PluginRegistry._extenders.size > 0
+  }
+
+  /**
+   * 将所有已注册的插件依次应用到 markdown-it 实例
+   * 与 VS Code 内置预览一致，插件返回的实例会传给下一个插件并用于渲染
+   */
+  static applyMarkdownItPlugins(md: MarkdownIt): MarkdownIt {
+    let result = md
+    for (const extender of [...PluginRegistry._contributed.extenders, ...PluginRegistry._extenders]) {
+      try {
+        result = extender(result) ?? result
+      }
+      catch (error) {
+        ErrorHandler.logError('markdown-it 插件应用失败', error, 'PluginRegistry')
+      }
+    }
+    return result
+  }
+
+  /**
+   * 依次执行渲染后处理钩子
+   */
+  static async runPostRenderHooks(html: string, context: PostRenderContext): Promise<string> {
+    let result = html
+    for (const hook of PluginRegistry._postRenderHooks) {
+      try {
+        result = await hook(result, context)
+      }
+      catch (error) {
+        ErrorHandler.logError('渲染后处理钩子执行失败', error, 'PluginRegistry')
+      }
+    }
+    return result
+  }
+
+  /**
+   * 预览页面需要额外加载的脚本
+   */
+  static get scripts(): vscode.Uri[] {
+    return [...PluginRegistry._contributed.scripts, ...PluginRegistry._scripts]
+  }
+
+  /**
+   * 预览页面需要额外加载的样式
+   */
+  static get styles(): vscode.Uri[] {
+    return [...PluginRegistry._contributed.styles, ...PluginRegistry._styles]
+  }
+
+  /**
+   * 额外脚本和样式所在目录，需要加入 webview 的 localResourceRoots
+   */
+  static get localResourceRoots(): vscode.Uri[] {
+    const apiRoots = [...PluginRegistry._scripts, ...PluginRegistry._styles].map(uri => vscode.Uri.joinPath(uri, '..'))
+    return [...PluginRegistry._contributed.roots, ...apiRoots]
+  }
+
+  /**
+   * 加载其他扩展通过 markdown.markdownItPlugins、markdown.previewScripts 和 markdown.previewStyles 贡献的内容
+   */
+  static async loadContributedPlugins(): Promise<void> {
+    const contributed: ContributedResources = { extenders: [], scripts: [], styles: [], roots: [] }
+    const ignoredExtensions = new Set(new ConfigService().getIgnoredExtensions().map(id => id.toLowerCase()))
+
+    for (const extension of vscode.extensions.all) {
+      // 内置扩展（如 markdown-math）的能力本预览已自带，跳过以免重复注册
+      const contributes = extension.packageJSON?.contributes
+      if (!contributes || extension.packageJSON.isBuiltin || ignoredExtensions.has(extension.id.toLowerCase())) {
+        continue
+      }
+
+      const previewScripts: string[] = contributes['markdown.previewScripts'] ?? []
+      const previewStyles: string[] = contributes['markdown.previewStyles'] ?? []
+      if (previewScripts.length > 0 || previewStyles.length > 0) {
+        contributed.roots.push(extension.extensionUri)
+        contributed.scripts.push(...previewScripts.map(script => vscode.Uri.joinPath(extension.extensionUri, script)))
+        contributed.styles.push(...previewStyles.map(style => vscode.Uri.joinPath(extension.extensionUri, style)))
+      }
+
+      if (!contributes['markdown.markdownItPlugins']) {
+        continue
+      }
+
+      try {
+        const exports = extension.isActive ? extension.exports : await extension.activate()
+        if (typeof exports?.extendMarkdownIt === 'function') {
+          contributed.extenders.push((md: MarkdownIt) => exports.extendMarkdownIt(md))
+        }
+      }
+      catch (error) {
+        ErrorHandler.logError(`扩展 ${extension.id} 的 markdown-it 插件加载失败`, error, 'PluginRegistry')
+      }
+    }
+
+    // 前后都没有贡献内容时无需通知预览刷新
+    const changed = PluginRegistry.hasContributions(PluginRegistry._contributed) || PluginRegistry.hasContributions(contributed)
+    PluginRegistry._contributed = contributed
+    if (changed) {
+      PluginRegistry._onDidChange.fire()
+    }
+  }
+
+  private static hasContributions(resources: ContributedResources): boolean {
+    return resources.extenders.length > 0 || resources.scripts.length > 0 || resources.styles.length > 0
+  }
+
+  private static register<T>(registry: Set<T>, item: T): vscode.Disposable {
+    registry.add(item)
+    PluginRegistry._onDidChange.fire()
+
+    return new vscode.Disposable(() => {
+      if (registry.delete(item)) {
+        PluginRegistry._onDidChange.fire()
+      }
+    })
+  }
+}
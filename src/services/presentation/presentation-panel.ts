@@ -0,0 +1,271 @@
+import type { debounce as DebouncedFunction } from 'throttle-debounce'
+import { nanoid } from 'nanoid'
+import { debounce } from 'throttle-debounce'
+import * as vscode from 'vscode'
+import { escapeHtml } from '../../utils/common'
+import { ErrorHandler } from '../../utils/error-handler'
+import { hasMathExpressions } from '../../utils/math-detector'
+import { ConfigService } from '../config'
+import { PluginRegistry } from '../plugins/plugin-registry'
+import { MarkdownPreviewPanel } from '../renderer/markdown-preview'
+import { MarkdownRenderer } from '../renderer/markdown-renderer'
+import { ThemeService } from '../theme/theme-service'
+
+/**
+ * 演示模式面板
+ * 使用预览渲染器和当前 Shiki 主题渲染文档，在 webview 中按分隔线或标题拆分为全屏幻灯片
+ */
+export class PresentationPanel {
+  public static readonly viewType = 'shikiMarkdownPresentation'
+
+  private static _current: PresentationPanel | undefined
+
+  private readonly _panel: vscode.WebviewPanel
+  private readonly _extensionUri: vscode.Uri
+  private readonly _configService = new ConfigService()
+  private readonly _themeService = new ThemeService()
+  private readonly _markdownRenderer = new MarkdownRenderer(this._themeService)
+  private _document: vscode.TextDocument
+  private _disposables: vscode.Disposable[] = []
+  private _debouncedUpdate: DebouncedFunction<() => void>
+  private _isFullScreen = false
+  private _isDisposed = false
+
+  /**
+   * 打开演示模式，已有演示面板时切换到新文档
+   */
+  public static async show(extensionUri: vscode.Uri, document: vscode.TextDocument): Promise<void> {
+    const current = PresentationPanel._current
+    if (current) {
+      current._panel.reveal()
+      if (current._document !== document) {
+        current._document = document
+        current._panel.title = current.getTitle()
+        await current.render()
+      }
+      return
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      PresentationPanel.viewType,
+      'Presentation',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [
+          vscode.Uri.joinPath(extensionUri, 'src/webview'),
+          ...PluginRegistry.localResourceRoots,
+        ],
+      },
+    )
+    PresentationPanel._current = new PresentationPanel(panel, extensionUri, document)
+    await PresentationPanel._current.initialize()
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, document: vscode.TextDocument) {
+    this._panel = panel
+    this._extensionUri = extensionUri
+    this._document = document
+    this._panel.title = this.getTitle()
+
+    this._debouncedUpdate = debounce(300, () => {
+      void ErrorHandler.safeExecute(() => this.update(), '演示内容更新失败', 'PresentationPanel')
+    })
+
+    this._disposables.push(
+      this._panel.onDidDispose(() => this.dispose()),
+      this._panel.webview.onDidReceiveMessage(message => this.handleWebviewMessage(message)),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document === this._document) {
+          this._debouncedUpdate()
+        }
+      }),
+      // 编辑器中移动光标时跳到光标所在的幻灯片
+      vscode.window.onDidChangeTextEditorSelection((event) => {
+        if (event.textEditor.document === this._document && event.kind !== vscode.TextEditorSelectionChangeKind.Command) {
+          void this._panel.webview.postMessage({
+            command: 'showSlideAtLine',
+            line: event.selections[0].active.line,
+          })
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('shikiMarkdownPreview')) {
+          void ErrorHandler.safeExecute(async () => {
+            if (ThemeService.affectsCustomThemes(event)) {
+              await this._themeService.reloadCustomThemes()
+            }
+            await this.render()
+          }, '演示设置变化处理失败', 'PresentationPanel')
+        }
+      }),
+      // 安装或卸载扩展后，扩展贡献的颜色主题可能发生变化
+      vscode.extensions.onDidChange(() => {
+        void ErrorHandler.safeExecute(async () => {
+          await this._themeService.reloadCustomThemes()
+          await this.render()
+        }, '扩展主题变化处理失败', 'PresentationPanel')
+      }),
+    )
+  }
+
+  private async initialize(): Promise<void> {
+    await this._themeService.initializeHighlighter()
+    this._markdownRenderer.initialize()
+    await this.render()
+  }
+
+  /**
+   * 重新生成整个页面，主题或设置变化时使用
+   */
+  private async render(): Promise<void> {
+    // 已打开预览时沿用预览当前的主题，否则使用设置中生效的主题
+    const previewTheme = MarkdownPreviewPanel.getPanel(this._document.uri)?.themeService.currentTheme
+    await this._themeService.updateThemeForPreview(previewTheme ?? this._themeService.effectiveTheme)
+
+    const content = this._document.getText()
+    const renderedContent = await this._markdownRenderer.render(content, this._document)
+    if (this._isDisposed) {
+      return
+    }
+
+    this._panel.webview.html = this.generateHtml({
+      content: renderedContent,
+      themeCSSVariables: await this._themeService.getThemeCSSVariables(),
+      markdownThemeType: await this._themeService.refreshCurrentThemeType(),
+      enableKatex: hasMathExpressions(content),
+    })
+  }
+
+  /**
+   * 文档修改后只替换幻灯片内容，保持当前页
+   */
+  private async update(): Promise<void> {
+    const renderedContent = await this._markdownRenderer.render(this._document.getText(), this._document)
+    if (this._isDisposed) {
+      return
+    }
+
+    const posted = await this._panel.webview.postMessage({
+      command: 'updateSlides',
+      content: renderedContent,
+    })
+    if (!posted) {
+      await this.render()
+    }
+  }
+
+  private handleWebviewMessage(message: any): void {
+    switch (message.command) {
+      case 'slideChanged':
+        this.syncEditorToLine(message.line)
+        break
+
+      case 'toggleFullScreen':
+        this._isFullScreen = !this._isFullScreen
+        void vscode.commands.executeCommand('workbench.action.toggleFullScreen')
+        break
+    }
+  }
+
+  /**
+   * 将可见编辑器的光标移动到当前幻灯片的起始行
+   */
+  private syncEditorToLine(line: number): void {
+    if (!Number.isInteger(line) || line < 0) {
+      return
+    }
+
+    const editor = vscode.window.visibleTextEditors.find(editor => editor.document === this._document)
+    if (!editor) {
+      return
+    }
+
+    const position = new vscode.Position(Math.min(line, this._document.lineCount - 1), 0)
+    editor.selection = new vscode.Selection(position, position)
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+  }
+
+  private getTitle(): string {
+    const fileName = this._document.uri.path.split('/').pop() ?? 'Markdown'
+    return `Presentation: ${fileName}`
+  }
+
+  private generateHtml(options: {
+    content: string
+    themeCSSVariables: string
+    markdownThemeType: 'light' | 'dark'
+    enableKatex: boolean
+  }): string {
+    const webview = this._panel.webview
+    const nonce = nanoid()
+    const asWebviewUri = (relativePath: string) =>
+      webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'src/webview', relativePath))
+
+    const stylesheets = [
+      'style.css',
+      'presentation.css',
+      ...(options.enableKatex ? ['katex.min.css'] : []),
+    ].map(asWebviewUri)
+    const extensionStyleUris = PluginRegistry.styles.map(uri => webview.asWebviewUri(uri))
+    const scripts = [
+      'modules/utils.js',
+      'modules/mermaid.min.js',
+      'modules/mermaid-renderer.js',
+      'modules/presentation.js',
+    ].map(asWebviewUri)
+
+    return `<!DOCTYPE html>
+            <html lang="en" data-markdown-theme-type="${options.markdownThemeType}">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} https: data:; script-src 'nonce-${nonce}'; connect-src https:;">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                ${[...stylesheets, ...extensionStyleUris].map(uri => `<link href="${uri}" rel="stylesheet">`).join('\n                ')}
+                <style>
+                    :root {
+                        ${options.themeCSSVariables}
+                        --font-family: ${this._configService.getFontFamily()};
+                    }
+                </style>
+                <title>${escapeHtml(this.getTitle())}</title>
+            </head>
+            <body class="presentation">
+                <div class="container" id="markdown-content">
+                    ${options.content}
+                </div>
+
+                ${scripts.map(uri => `<script nonce="${nonce}" src="${uri}"></script>`).join('\n                ')}
+
+                <script nonce="${nonce}">
+                    window.vscode = acquireVsCodeApi();
+                    window.presentationConfig = ${JSON.stringify({ splitOn: this._configService.getPresentationSplitOn() })};
+                    window.initializePresentation();
+                </script>
+            </body>
+            </html>`
+  }
+
+  public dispose(): void {
+    if (this._isDisposed) {
+      return
+    }
+    this._isDisposed = true
+    PresentationPanel._current = undefined
+    this._debouncedUpdate.cancel()
+
+    // 退出演示时还原全屏状态
+    if (this._isFullScreen) {
+      void vscode.commands.executeCommand('workbench.action.toggleFullScreen')
+    }
+
+    this._markdownRenderer.dispose()
+    this._themeService.dispose()
+    this._panel.dispose()
+
+    while (this._disposables.length) {
+      this._disposables.pop()?.dispose()
+    }
+  }
+}
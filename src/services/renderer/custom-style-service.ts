@@ -0,0 +1,137 @@
+import type { ConfigService } from '../config'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { debounce } from 'throttle-debounce'
+import * as vscode from 'vscode'
+import { ErrorHandler } from '../../utils/error-handler'
+
+/**
+ * 管理注入预览的自定义 CSS（设置 shikiMarkdownPreview.styles）
+ * 设置按文档所在的工作区文件夹读取，样式文件在磁盘上变化时通知预览刷新
+ */
+export class CustomStyleService implements vscode.Disposable {
+  private _styles: vscode.Uri[] = []
+  private _stylesKey: string | undefined
+  // 附加在样式地址上，文件变化后使 webview 重新读取
+  private _version = 0
+  private _watchers: vscode.Disposable[] = []
+  // 已经提示过的远程样式地址，避免每次渲染都输出日志
+  private readonly _ignoredRemoteStyles = new Set<string>()
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+
+  // 保存文件时可能连续触发多个事件
+  private readonly _fireChange = debounce(100, () => this._onDidChange.fire())
+
+  /**
+   * 样式文件被修改、创建或删除时触发
+   */
+  readonly onDidChange = this._onDidChange.event
+
+  constructor(private readonly _configService: ConfigService) {}
+
+  /**
+   * 根据文档重新解析样式列表
+   * @returns 样式列表是否发生变化，变化后需要更新 webview 选项并整页刷新
+   */
+  update(document?: vscode.TextDocument): boolean {
+    const styles = this.resolveStyles(document)
+    const stylesKey = styles.map(style => style.toString()).join('\n')
+    if (stylesKey === this._stylesKey) {
+      return false
+    }
+
+    this._styles = styles
+    this._stylesKey = stylesKey
+    this.watchStyles()
+    return true
+  }
+
+  /**
+   * 样式文件所在的目录
+   */
+  get localResourceRoots(): vscode.Uri[] {
+    return this._styles.map(style => vscode.Uri.joinPath(style, '..'))
+  }
+
+  /**
+   * 获取 webview 中使用的样式地址
+   */
+  getWebviewUris(webview: vscode.Webview): string[] {
+    return this._styles.map(style => webview.asWebviewUri(style.with({ query: `v=${this._version}` })).toString())
+  }
+
+  /**
+   * 解析设置中的样式路径，支持绝对路径和相对路径
+   * 内容安全策略只允许加载本地样式，远程地址会被忽略
+   */
+  private resolveStyles(document?: vscode.TextDocument): vscode.Uri[] {
+    return this._configService.getCustomStylePaths(document?.uri).flatMap((stylePath) => {
+      if (/^https?:\/\//i.test(stylePath)) {
+        if (!this._ignoredRemoteStyles.has(stylePath)) {
+          this._ignoredRemoteStyles.add(stylePath)
+          ErrorHandler.logWarning(`不支持远程样式，已忽略: ${stylePath}`, 'CustomStyleService')
+        }
+        return []
+      }
+
+      const expandedPath = stylePath.startsWith('~/') ? path.join(os.homedir(), stylePath.slice(2)) : stylePath
+      if (path.isAbsolute(expandedPath)) {
+        return [vscode.Uri.file(expandedPath)]
+      }
+
+      const baseUri = this.getBaseUri(document)
+      return baseUri ? [vscode.Uri.joinPath(baseUri, ...expandedPath.split(/[\\/]/))] : []
+    })
+  }
+
+  /**
+   * 相对路径基于文档所在的工作区文件夹，文档不在工作区中时基于文档所在目录
+   */
+  private getBaseUri(document?: vscode.TextDocument): vscode.Uri | undefined {
+    if (document) {
+      const folder = vscode.workspace.getWorkspaceFolder(document.uri)
+      if (folder) {
+        return folder.uri
+      }
+      if (document.uri.scheme === 'file') {
+        return vscode.Uri.joinPath(document.uri, '..')
+      }
+    }
+    return vscode.workspace.workspaceFolders?.[0]?.uri
+  }
+
+  /**
+   * 监听样式文件，文件暂不存在时创建后也会刷新
+   */
+  private watchStyles(): void {
+    this.disposeWatchers()
+
+    const onStyleFileChange = () => {
+      this._version++
+      this._fireChange()
+    }
+
+    for (const style of this._styles) {
+      const pattern = new vscode.RelativePattern(vscode.Uri.joinPath(style, '..'), path.posix.basename(style.path))
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern)
+      this._watchers.push(
+        watcher,
+        watcher.onDidChange(onStyleFileChange),
+        watcher.onDidCreate(onStyleFileChange),
+        watcher.onDidDelete(onStyleFileChange),
+      )
+    }
+  }
+
+  private disposeWatchers(): void {
+    while (this._watchers.length) {
+      this._watchers.pop()?.dispose()
+    }
+  }
+
+  dispose(): void {
+    this._fireChange.cancel()
+    this.disposeWatchers()
+    this._onDidChange.dispose()
+  }
+}
@@ -1,6 +1,9 @@
+import type { TocConfig } from '../../types/toc'
 import { nanoid } from 'nanoid'
 import * as vscode from 'vscode'
 import { escapeHtml } from '../../utils'
+import { PluginRegistry } from '../plugins/plugin-registry'
+import { DEFAULT_TOC_CONFIG } from '../toc/toc-config'
 
 export interface HTMLTemplateOptions {
   webview: vscode.Webview
@@ -15,7 +18,11 @@ export interface HTMLTemplateOptions {
   enableScrollSync?: boolean
   enableScrollSyncDebug?: boolean
   enableKatex?: boolean
-  expandTocByDefault?: boolean
+  tocConfig?: TocConfig
+  /** 用户自定义样式的 webview 地址，在主题样式之后加载 */
+  customStyleUris?: string[]
+  /** 显示的文档 URI，webview 回传图表错误时用于区分所属文档 */
+  documentUri?: string
 }
 
 export class HTMLTemplateService {
@@ -36,13 +43,16 @@ export class HTMLTemplateService {
       enableScrollSync = true,
       enableScrollSyncDebug = false,
       enableKatex = false,
-      expandTocByDefault = false,
+      tocConfig = DEFAULT_TOC_CONFIG,
+      customStyleUris = [],
+      documentUri = '',
     } = options
 
     // 模块化脚本加载 - 根据设置条件性加载滚动同步脚本
     const scriptModules = [
       'utils.js',
       'syntax-highlight.js',
+      'navigation-history.js',
       'link-handler.js',
       'task-checkbox-handler.js',
       'mermaid.min.js',
@@ -50,6 +60,7 @@ export class HTMLTemplateService {
       ...(enableScrollSync ? ['scroll-sync.js'] : []),
       'notion-toc.js',
       'search-highlight.js',
+      'dom-patcher.js',
       'main.js',
     ]
 
@@ -57,6 +68,10 @@ export class HTMLTemplateService {
       webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'src/webview/modules', module)),
     )
 
+    // 其他扩展注册的脚本和样式
+    const extensionScriptUris = PluginRegistry.scripts.map(uri => webview.asWebviewUri(uri))
+    const extensionStyleUris = PluginRegistry.styles.map(uri => webview.asWebviewUri(uri))
+
     const webviewCssUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'src/webview/style.css'))
     const searchCssUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'src/webview/search.css'))
 
@@ -74,6 +89,7 @@ export class HTMLTemplateService {
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <link href="${webviewCssUri}" rel="stylesheet">
                 <link href="${searchCssUri}" rel="stylesheet">${katexCSS}
+                ${extensionStyleUris.map(uri => `<link href="${uri}" rel="stylesheet">`).join('\n                ')}
                 <style>
                     :root {
                         ${themeCSSVariables}
@@ -81,10 +97,11 @@ export class HTMLTemplateService {
                         --font-family: ${fontFamily};
                     }
                 </style>
+                ${customStyleUris.map(uri => `<link href="${escapeHtml(uri)}" rel="stylesheet">`).join('\n                ')}
                 <title>${frontMatterData?.title ? escapeHtml(frontMatterData.title) : 'Markdown Preview'}</title>
             </head>
             <body>
-                <div class="container" id="markdown-content">
+                <div class="container" id="markdown-content" data-document-uri="${escapeHtml(documentUri)}">
                     ${content}
                 </div>
                 
@@ -96,9 +113,7 @@ export class HTMLTemplateService {
                     window.frontMatterData = ${JSON.stringify(frontMatterData)};
 
                     // 存储目录配置
-                    window.tocConfig = {
-                        expandTocByDefault: ${expandTocByDefault ? 'true' : 'false'}
-                    };
+                    window.tocConfig = ${JSON.stringify(tocConfig)};
 
                     // 滚动同步排查日志开关
                     window.scrollSyncDebug = ${enableScrollSyncDebug ? 'true' : 'false'};
@@ -121,22 +136,10 @@ export class HTMLTemplateService {
                         }
                     }
                     
-                    // Listen for messages from extension
+                    // 来自扩展的消息统一交给主模块处理
                     window.addEventListener('message', event => {
-                        const message = event.data;
-                        switch (message.command) {
-                            case 'saveState':
-                                // Save state to webview
-                                vscode.setState(message.state || {
-                                    documentUri: message.documentUri
-                                });
-                                break;
-                            default:
-                                // 将其他消息转发给主模块处理
-                                if (window.handleExtensionMessage) {
-                                    window.handleExtensionMessage(event);
-                                }
-                                break;
+                        if (window.handleExtensionMessage) {
+                            window.handleExtensionMessage(event);
                         }
                     });
                     
@@ -150,6 +153,7 @@ export class HTMLTemplateService {
                         vscode.postMessage({ command: 'webviewReady' });
                     });
                 </script>
+                ${extensionScriptUris.map(uri => `<script nonce="${nonce}" src="${uri}"></script>`).join('\n                ')}
             </body>
             </html>`
   }
@@ -173,13 +177,17 @@ export class HTMLTemplateService {
 
   /**
    * Generate webview options
+   * @param extensionUri 扩展根目录
+   * @param customStyleRoots 用户自定义样式所在的目录
    */
-  static getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+  static getWebviewOptions(extensionUri: vscode.Uri, customStyleRoots: vscode.Uri[] = []): vscode.WebviewOptions {
     return {
       enableScripts: true,
       localResourceRoots: [
         vscode.Uri.joinPath(extensionUri, 'src/webview'),
         vscode.Uri.joinPath(extensionUri, 'src/webview/modules'),
+        ...PluginRegistry.localResourceRoots,
+        ...customStyleRoots,
       ],
     }
   }
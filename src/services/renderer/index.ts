@@ -1,4 +1,7 @@
+export * from './custom-style-service'
 export * from './html-template-service'
 export * from './markdown-preview'
 export * from './markdown-renderer'
+export * from './render-worker-client'
+export * from './shiki-markdown-renderer'
 export * from './webview-serializer'
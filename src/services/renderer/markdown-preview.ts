@@ -1,4 +1,6 @@
 import type { debounce as DebouncedFunction } from 'throttle-debounce'
+import type { NavigationHistoryState } from '../../types/navigation'
+import type { MarkdownRenderEnv, RenderedHeading, RenderError } from './markdown-renderer'
 import { debounce } from 'throttle-debounce'
 import * as vscode from 'vscode'
 
@@ -10,18 +12,43 @@ import {
 } from '..'
 import { ErrorHandler } from '../../utils/error-handler'
 import { hasMathExpressions } from '../../utils/math-detector'
-import { PathResolver } from '../../utils/path-resolver'
+import { DocumentOverridesResolver, publishFrontMatterIssues } from '../config/document-overrides'
+import { RenderDiagnostics } from '../diagnostics/render-diagnostics'
+import { PluginRegistry } from '../plugins'
 import { ScrollSyncManager } from '../scroll-sync'
+import { CustomStyleService } from './custom-style-service'
 import { MarkdownRenderer } from './markdown-renderer'
+import { PreviewNavigator } from './preview-navigator'
+import { RenderWorkerClient } from './render-worker-client'
+
+/** 影响浮动目录的设置项 */
+const TOC_SETTINGS = ['expandTocByDefault', 'tocLevels', 'tocNumbering', 'tocPosition', 'tocMaxWidth']
 
 /**
  * Manages markdown preview webview panels
  */
 export class MarkdownPreviewPanel {
   /**
-   * Track the currently panel. Only allow a single panel to exist at a time.
+   * 按文档 URI 登记的预览面板，每个文档最多对应一个面板
+   */
+  private static readonly _panels = new Map<string, MarkdownPreviewPanel>()
+  /**
+   * 所有未释放的预览面板，包括尚未显示文档的面板
+   */
+  private static readonly _livePanels = new Set<MarkdownPreviewPanel>()
+  private static _nextRenderChannel = 0
+
+  /**
+   * 最近一次获得焦点的预览面板
    */
-  public static currentPanel: MarkdownPreviewPanel | undefined
+  private static _activePanel: MarkdownPreviewPanel | undefined
+
+  private static readonly _onDidUpdateOutline = new vscode.EventEmitter<void>()
+
+  /**
+   * 活动预览切换、标题重新渲染或可见位置变化时触发，供大纲视图刷新
+   */
+  public static readonly onDidUpdateOutline = MarkdownPreviewPanel._onDidUpdateOutline.event
 
   public static readonly viewType = 'shikiMarkdownPreview'
 
@@ -34,6 +61,7 @@ export class MarkdownPreviewPanel {
   private _markdownRenderer: MarkdownRenderer
   private _stateManager: StateManager
   private _configService: ConfigService
+  private _customStyles: CustomStyleService
   private _scrollSyncManager: ScrollSyncManager | undefined
 
   /**
@@ -50,11 +78,23 @@ export class MarkdownPreviewPanel {
   private _lastRenderedDocumentVersion: number | undefined
   private _lastRenderedTheme: string | undefined
   private _lastRenderUsedKatex: boolean = false
+  private _lastDocumentWidth: string | undefined
+  private _lastFontFamily: string | undefined
+  // 当前文档 front matter 中的设置，切换文档后随之更新
+  private _documentOverrides: DocumentOverridesResolver
   private _hasRenderedWebview: boolean = false
   private _isWebviewReady: boolean = false
+  private _pendingRevealLine: number | undefined
+  private _headings: RenderedHeading[] = []
+  private _visibleLine: number | undefined
+  private _navigator: PreviewNavigator
   private _renderGeneration: number = 0
+  // 在渲染线程中区分不同预览的请求
+  private readonly _renderChannel = `preview-${++MarkdownPreviewPanel._nextRenderChannel}`
   private _isDisposed: boolean = false
   private _isThemeChanging: boolean = false
+  private _isLocked: boolean = false
+  private _baseTitle: string = 'Markdown Preview'
 
   // 初始化 Promise 相关
   private _initializationPromise: Promise<void> | undefined
@@ -71,17 +111,59 @@ export class MarkdownPreviewPanel {
     return MarkdownPreviewPanel._createOrShow(extensionUri, vscode.ViewColumn.One, document)
   }
 
+  /**
+   * 获取指定文档对应的预览面板
+   */
+  public static getPanel(uri: vscode.Uri): MarkdownPreviewPanel | undefined {
+    return MarkdownPreviewPanel._panels.get(uri.toString())
+  }
+
+  /**
+   * 获取所有未释放的预览面板，包括尚未显示文档的面板
+   */
+  public static get panels(): MarkdownPreviewPanel[] {
+    return [...MarkdownPreviewPanel._livePanels]
+  }
+
+  /**
+   * 获取最近一次获得焦点的预览面板
+   */
+  public static get activePanel(): MarkdownPreviewPanel | undefined {
+    return MarkdownPreviewPanel._activePanel
+  }
+
+  private static setActivePanel(previewPanel: MarkdownPreviewPanel | undefined): void {
+    MarkdownPreviewPanel._activePanel = previewPanel
+    MarkdownPreviewPanel._onDidUpdateOutline.fire()
+  }
+
+  /**
+   * 获取应跟随活动编辑器的预览面板，已锁定的面板不参与跟随
+   */
+  public static get followingPanel(): MarkdownPreviewPanel | undefined {
+    const activePanel = MarkdownPreviewPanel._activePanel
+    if (activePanel && !activePanel.isLocked) {
+      return activePanel
+    }
+    return MarkdownPreviewPanel.panels.findLast(previewPanel => !previewPanel.isLocked)
+  }
+
   private static async _createOrShow(extensionUri: vscode.Uri, viewColumn: vscode.ViewColumn, document?: vscode.TextDocument): Promise<MarkdownPreviewPanel> {
-    if (MarkdownPreviewPanel.currentPanel) {
-      MarkdownPreviewPanel.currentPanel._panel.reveal(viewColumn)
+    // 同一文档已有预览时直接复用，其他文档则新建面板
+    const existingPanel = document
+      ? MarkdownPreviewPanel.getPanel(document.uri)
+      : MarkdownPreviewPanel.followingPanel
+    if (existingPanel) {
+      existingPanel._panel.reveal(viewColumn)
+      MarkdownPreviewPanel.setActivePanel(existingPanel)
       if (document) {
         await ErrorHandler.safeExecute(
-          () => MarkdownPreviewPanel.currentPanel!.updateContent(document),
+          () => existingPanel.updateContent(document),
           '创建或显示时内容更新失败',
           'MarkdownPreviewPanel',
         )
       }
-      return MarkdownPreviewPanel.currentPanel
+      return existingPanel
     }
 
     const panel = vscode.window.createWebviewPanel(
@@ -92,7 +174,6 @@ export class MarkdownPreviewPanel {
     )
 
     const previewPanel = new MarkdownPreviewPanel(panel, extensionUri, document)
-    MarkdownPreviewPanel.currentPanel = previewPanel
 
     // 等待面板完全初始化完成
     await previewPanel.waitForInitialization()
@@ -100,14 +181,68 @@ export class MarkdownPreviewPanel {
     return previewPanel
   }
 
-  public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, document?: vscode.TextDocument) {
-    MarkdownPreviewPanel.currentPanel = new MarkdownPreviewPanel(panel, extensionUri, document)
+  public static revive(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    document?: vscode.TextDocument,
+    locked: boolean = false,
+    history?: NavigationHistoryState,
+  ): MarkdownPreviewPanel {
+    return new MarkdownPreviewPanel(panel, extensionUri, document, locked, history)
   }
 
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, document?: vscode.TextDocument) {
+  /**
+   * 将面板登记到新文档下，并移除其旧文档的登记
+   * @returns 文档已由其他面板显示时不登记，返回 false
+   */
+  private static registerPanel(previewPanel: MarkdownPreviewPanel, document: vscode.TextDocument): boolean {
+    const ownerPanel = MarkdownPreviewPanel.getPanel(document.uri)
+    if (ownerPanel && ownerPanel !== previewPanel) {
+      return false
+    }
+
+    MarkdownPreviewPanel.removeRegistration(previewPanel)
+    MarkdownPreviewPanel._panels.set(document.uri.toString(), previewPanel)
+    return true
+  }
+
+  /**
+   * 从登记表中移除面板
+   */
+  private static unregisterPanel(previewPanel: MarkdownPreviewPanel): void {
+    MarkdownPreviewPanel.removeRegistration(previewPanel)
+    MarkdownPreviewPanel._livePanels.delete(previewPanel)
+    if (MarkdownPreviewPanel._activePanel === previewPanel) {
+      MarkdownPreviewPanel.setActivePanel(MarkdownPreviewPanel.panels.at(-1))
+      MarkdownPreviewPanel._activePanel?.updateLockContext()
+    }
+  }
+
+  private static removeRegistration(previewPanel: MarkdownPreviewPanel): void {
+    for (const [uri, registeredPanel] of MarkdownPreviewPanel._panels) {
+      if (registeredPanel === previewPanel) {
+        MarkdownPreviewPanel._panels.delete(uri)
+      }
+    }
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    document?: vscode.TextDocument,
+    locked: boolean = false,
+    history?: NavigationHistoryState,
+  ) {
     this._panel = panel
     this._extensionUri = extensionUri
-    this._currentDocument = document
+    this._isLocked = locked
+    MarkdownPreviewPanel._livePanels.add(this)
+    // 文档已由其他面板显示时，新面板以空白状态打开
+    if (document && MarkdownPreviewPanel.registerPanel(this, document)) {
+      this._currentDocument = document
+    }
+    MarkdownPreviewPanel.setActivePanel(this)
+    this.updateLockContext()
 
     // 初始化 Promise
     this._initializationPromise = new Promise<void>((resolve) => {
@@ -123,8 +258,11 @@ export class MarkdownPreviewPanel {
 
     // 初始化服务
     this._configService = new ConfigService()
+    this._customStyles = new CustomStyleService(this._configService)
     this._themeService = new ThemeService()
     this._markdownRenderer = new MarkdownRenderer(this._themeService)
+    this._documentOverrides = new DocumentOverridesResolver(this._configService, this._themeService)
+    this._navigator = new PreviewNavigator(this, MarkdownPreviewPanel, this._markdownRenderer, history)
     this._stateManager = new StateManager(panel)
     this._scrollSyncManager = new ScrollSyncManager(this)
 
@@ -183,14 +321,6 @@ export class MarkdownPreviewPanel {
     return config.get<boolean>('enableScrollSyncDebug', false)
   }
 
-  /**
-   * 获取目录展开设置
-   */
-  private getTocExpandSetting(): boolean {
-    const config = vscode.workspace.getConfiguration('shikiMarkdownPreview')
-    return config.get<boolean>('expandTocByDefault', false)
-  }
-
   /**
    * 判断是否是会影响预览主题的配置变化
    */
@@ -199,6 +329,7 @@ export class MarkdownPreviewPanel {
       || event.affectsConfiguration('shikiMarkdownPreview.autoDetectColorScheme')
       || event.affectsConfiguration('shikiMarkdownPreview.preferredDarkColorTheme')
       || event.affectsConfiguration('shikiMarkdownPreview.preferredLightColorTheme')
+      || event.affectsConfiguration('shikiMarkdownPreview.matchVSCodeTheme')
   }
 
   /**
@@ -219,6 +350,13 @@ export class MarkdownPreviewPanel {
     // 根据视图变化更新内容
     this._panel.onDidChangeViewState(
       () => {
+        if (this._panel.active) {
+          if (MarkdownPreviewPanel._activePanel !== this) {
+            MarkdownPreviewPanel.setActivePanel(this)
+          }
+          this.updateLockContext()
+        }
+
         if (this._panel.visible && this._currentDocument) {
           // 只有在文档版本发生变化时才重新渲染，避免不必要的闪烁
           const currentVersion = this._currentDocument.version
@@ -238,7 +376,15 @@ export class MarkdownPreviewPanel {
     // 监听配置变化，特别是主题变化
     vscode.workspace.onDidChangeConfiguration(
       (event) => {
-        if (this.isThemeConfigurationChange(event)) {
+        // 重新发现主题后会应用当前配置下生效的主题，不再单独处理主题变化
+        if (ThemeService.affectsCustomThemes(event)) {
+          ErrorHandler.safeExecute(
+            () => this.handleCustomThemesChange(),
+            '自定义主题变化处理失败',
+            'MarkdownPreviewPanel',
+          )
+        }
+        else if (this.isThemeConfigurationChange(event)) {
           // 如果正在手动切换主题，跳过配置变化处理
           if (this._isThemeChanging) {
             ErrorHandler.logInfo('主题正在手动切换中，跳过配置变化处理', 'MarkdownPreviewPanel')
@@ -265,15 +411,36 @@ export class MarkdownPreviewPanel {
             'MarkdownPreviewPanel',
           )
         }
+        if (event.affectsConfiguration('shikiMarkdownPreview.customContainers')) {
+          ErrorHandler.safeExecute(
+            () => this.refreshCurrentContent(),
+            '自定义容器变化处理失败',
+            'MarkdownPreviewPanel',
+          )
+        }
+        if (event.affectsConfiguration('shikiMarkdownPreview.styles')) {
+          ErrorHandler.safeExecute(
+            () => this.refreshCurrentContent(),
+            '自定义样式变化处理失败',
+            'MarkdownPreviewPanel',
+          )
+        }
+        if (TOC_SETTINGS.some(setting => event.affectsConfiguration(`shikiMarkdownPreview.${setting}`))) {
+          ErrorHandler.safeExecute(
+            () => this.refreshCurrentContent(),
+            '目录设置变化处理失败',
+            'MarkdownPreviewPanel',
+          )
+        }
       },
       null,
       this._disposables,
     )
 
-    // 自动跟随开启后，VS Code 外观发生亮/暗变化时刷新预览主题
+    // 自动跟随或跟随 VS Code 主题开启后，VS Code 主题变化时刷新预览主题
     vscode.window.onDidChangeActiveColorTheme(
       () => {
-        if (!this._themeService.autoDetectColorSchemeEnabled) {
+        if (!this._themeService.autoDetectColorSchemeEnabled && !this._themeService.matchVSCodeThemeEnabled) {
           return
         }
 
@@ -287,6 +454,45 @@ export class MarkdownPreviewPanel {
       this._disposables,
     )
 
+    // 安装或卸载扩展后，扩展贡献的颜色主题可能发生变化
+    vscode.extensions.onDidChange(
+      () => {
+        ErrorHandler.safeExecute(
+          () => this.handleCustomThemesChange(),
+          '扩展主题变化处理失败',
+          'MarkdownPreviewPanel',
+        )
+      },
+      null,
+      this._disposables,
+    )
+
+    // 其他扩展注册的插件或资源变化时，重建渲染器并整页刷新
+    PluginRegistry.onDidChange(
+      () => {
+        ErrorHandler.safeExecute(
+          () => this.handlePluginRegistryChange(),
+          '插件变化处理失败',
+          'MarkdownPreviewPanel',
+        )
+      },
+      null,
+      this._disposables,
+    )
+
+    // 自定义样式文件在磁盘上变化时整页刷新
+    this._customStyles.onDidChange(
+      () => {
+        ErrorHandler.safeExecute(
+          () => this.refreshCurrentContent(),
+          '自定义样式文件变化处理失败',
+          'MarkdownPreviewPanel',
+        )
+      },
+      null,
+      this._disposables,
+    )
+
     // 处理来自 webview 的消息
     this._panel.webview.onDidReceiveMessage(
       message => this.handleWebviewMessage(message),
@@ -346,40 +552,59 @@ export class MarkdownPreviewPanel {
     }
   }
 
-  // 处理相对路径文件点击
-  private async handleRelativeFileClick(filePath: string) {
-    const currentDocument = this._currentDocument
-    if (!currentDocument) {
-      if (this._panel) {
-        ErrorHandler.showError('无法获取当前文档信息')
-      }
-      return
-    }
+  /**
+   * 在导航历史中后退或前进
+   */
+  public navigateHistory(direction: 'back' | 'forward'): void {
+    this._navigator.navigate(direction)
+  }
+
+  /**
+   * 将预览滚动到源文件中的指定行，内容尚未渲染完成时在渲染后执行
+   */
+  public revealLine(line: number): void {
+    this._pendingRevealLine = line
+    this.updateVisibleLine(line)
+    this.flushPendingRevealLine()
+  }
 
-    // 解析相对路径
-    const currentFileUri = vscode.Uri.file(currentDocument.fileName)
-    const currentDir = vscode.Uri.joinPath(currentFileUri, '..')
+  /**
+   * 最近一次渲染得到的标题，与预览中的标题 ID 一致
+   */
+  public get headings(): RenderedHeading[] {
+    return this._headings
+  }
 
-    // 验证和解析路径
-    const targetFile = PathResolver.validateAndResolvePath(currentDir, filePath)
-    if (!targetFile) {
-      if (this._panel) {
-        ErrorHandler.showError(`无效或不安全的文件路径: ${filePath}`)
-      }
+  /**
+   * 预览当前显示位置对应的源文件行号
+   */
+  public get visibleLine(): number | undefined {
+    return this._visibleLine
+  }
+
+  /**
+   * 记录预览当前显示的位置，由滚动同步在编辑器或预览滚动时调用
+   */
+  public updateVisibleLine(line: number): void {
+    if (!Number.isInteger(line) || line === this._visibleLine) {
       return
     }
+    this._visibleLine = line
+    MarkdownPreviewPanel._onDidUpdateOutline.fire()
+  }
 
-    // 检查文件是否存在
-    const fileExists = await PathResolver.fileExists(targetFile)
-    if (!fileExists) {
-      if (this._panel) {
-        ErrorHandler.showError(`文件不存在: ${filePath}`)
-      }
+  private flushPendingRevealLine(): void {
+    if (this._pendingRevealLine === undefined
+      || !this._isWebviewReady
+      || this._lastRenderedDocumentUri !== this._currentDocument?.uri.toString()) {
       return
     }
 
-    // 安全地打开文件
-    await PathResolver.openFileSafely(targetFile, vscode.ViewColumn.One)
+    void this._panel.webview.postMessage({
+      command: 'syncScrollToLine',
+      line: this._pendingRevealLine,
+    })
+    this._pendingRevealLine = undefined
   }
 
   /**
@@ -400,19 +625,62 @@ export class MarkdownPreviewPanel {
         return
 
       case 'openRelativeFile':
-        this.handleRelativeFileClick(message.filePath)
+        void this._navigator.openRelativeFile(message.filePath, message.fragment, message.line)
+        break
+
+      case 'navigateHistory':
+        void this._navigator.performNavigation(message.direction === 'forward' ? 'forward' : 'back', message.line)
         break
 
       case 'toggleTaskCheckbox':
         void this.handleTaskCheckboxToggle(message.line, message.checked)
         break
 
+      case 'mermaidErrors':
+        this.handleMermaidErrors(message.errors, message.documentUri)
+        break
+
       case 'webviewReady':
         this._isWebviewReady = true
+        // 整页刷新期间发送的状态可能丢失，页面就绪后重新保存锁定状态和导航历史
+        this.saveState()
+        this.flushPendingRevealLine()
+        this._navigator.postState()
         break
     }
   }
 
+  /**
+   * 将 webview 回传的 Mermaid 渲染错误报告为诊断
+   * 错误信息中的 "line N" 相对于代码块内容，换算为源文件行号
+   * 图表异步渲染，预览切换文档后才回传的旧文档错误被丢弃
+   */
+  private handleMermaidErrors(errors: unknown, documentUri: unknown): void {
+    const currentDocument = this._currentDocument
+    if (!currentDocument || !Array.isArray(errors) || documentUri !== currentDocument.uri.toString()) {
+      return
+    }
+
+    const renderErrors: RenderError[] = []
+    for (const error of errors) {
+      const fenceLine = Number(error?.line)
+      if (!Number.isInteger(fenceLine) || fenceLine < 0) {
+        continue
+      }
+
+      const message = String(error.message ?? '').trim() || 'Mermaid 图表渲染失败'
+      const contentLine = Number(message.match(/\bline (\d+)/i)?.[1])
+      renderErrors.push({
+        source: 'mermaid',
+        line: contentLine > 0 ? fenceLine + contentLine : fenceLine,
+        message,
+        severity: 'error',
+      })
+    }
+
+    RenderDiagnostics.update(currentDocument, 'mermaid', renderErrors)
+  }
+
   private async handleTaskCheckboxToggle(line: number, checked: boolean): Promise<void> {
     const currentDocument = this._currentDocument
     if (!currentDocument || !Number.isInteger(line) || line < 0 || line >= currentDocument.lineCount) {
@@ -510,6 +778,17 @@ export class MarkdownPreviewPanel {
       return
     }
 
+    if (this._currentDocument !== document) {
+      // 同一文档只由一个面板显示，已有其他面板时切换到该面板
+      if (!MarkdownPreviewPanel.registerPanel(this, document)) {
+        MarkdownPreviewPanel.getPanel(document.uri)?._panel.reveal()
+        return
+      }
+      // 渲染错误只在文档显示于预览中时报告
+      if (this._currentDocument) {
+        RenderDiagnostics.clear(this._currentDocument.uri)
+      }
+    }
     this._currentDocument = document
     const renderGeneration = ++this._renderGeneration
 
@@ -531,6 +810,8 @@ export class MarkdownPreviewPanel {
 
       // 更新状态
       this.updateRenderedState(document)
+      this.flushPendingRevealLine()
+      this._navigator.postState()
     }
     catch (error) {
       this.handleRenderError(error)
@@ -558,21 +839,31 @@ export class MarkdownPreviewPanel {
     options: { forceFullReload?: boolean, renderGeneration?: number } = {},
   ): Promise<void> {
     const content = document.getText()
+
+    // front matter 中的设置只作用于当前文档，主题需要在渲染前应用
+    const { overrides, issues: frontMatterIssues } = this._documentOverrides.resolve(this._markdownRenderer.getFrontMatterData(content))
+    if (await this._documentOverrides.applyTheme()) {
+      await this._markdownRenderer.reloadLanguagesAfterThemeChange(content)
+    }
+
     const themeBeforeRender = this._themeService.currentTheme
 
-    // 获取 front matter 数据
-    const frontMatterData = this._markdownRenderer.getFrontMatterData(content)
-    const renderedContent = await this._markdownRenderer.render(content, document)
+    const rendered = await this.renderMarkdown(document, content, options.renderGeneration ?? this._renderGeneration)
+    if (!rendered) {
+      return
+    }
+    const { html: renderedContent, frontMatterData, env: renderEnv } = rendered
 
-    // 检测是否包含数学公式
-    const enableKatex = hasMathExpressions(content)
+    // 检测是否包含数学公式，front matter 中的 math 优先
+    const enableKatex = overrides.math ?? hasMathExpressions(content)
+    const tocConfig = this._documentOverrides.getTocConfig()
 
     // 等待主题 CSS 变量
     const themeCSSVariables = await this._themeService.getThemeCSSVariables()
 
     // 获取文档宽度配置
-    const documentWidth = this._configService.getDocumentWidth()
-    const fontFamily = this._configService.getFontFamily()
+    const documentWidth = this._documentOverrides.getDocumentWidth()
+    const fontFamily = this._documentOverrides.getFontFamily()
 
     // 确保在渲染前获取最新的主题类型
     const currentThemeType = await this._themeService.refreshCurrentThemeType()
@@ -581,8 +872,20 @@ export class MarkdownPreviewPanel {
       return
     }
 
+    this._headings = renderEnv.headings ?? []
+    MarkdownPreviewPanel._onDidUpdateOutline.fire()
+
+    // KaTeX 错误在渲染时收集，Mermaid 错误由 webview 渲染图表后回传
+    RenderDiagnostics.update(document, 'katex', renderEnv.renderErrors ?? [])
+    publishFrontMatterIssues(document, frontMatterIssues)
+    if (!renderedContent.includes('language-mermaid')) {
+      RenderDiagnostics.update(document, 'mermaid', [])
+    }
+
     const themeChanged = this._lastRenderedTheme !== undefined && this._lastRenderedTheme !== themeBeforeRender
+    const stylesChanged = this.updateCustomStyles(document)
     const needsFullReload = options.forceFullReload
+      || stylesChanged
       || !this._hasRenderedWebview
       || !this._isWebviewReady
       || this._lastRenderUsedKatex !== enableKatex
@@ -600,7 +903,9 @@ export class MarkdownPreviewPanel {
       enableScrollSync: this.getScrollSyncSetting(), // 传递滚动同步设置
       enableScrollSyncDebug: this.getScrollSyncDebugSetting(), // 传递滚动同步排查日志设置
       enableKatex, // 传递 KaTeX 启用状态
-      expandTocByDefault: this.getTocExpandSetting(), // 传递目录展开设置
+      tocConfig, // 传递目录配置
+      customStyleUris: this._customStyles.getWebviewUris(this._panel.webview), // 传递自定义样式
+      documentUri: document.uri.toString(),
     }
 
     if (needsFullReload) {
@@ -609,12 +914,21 @@ export class MarkdownPreviewPanel {
       this._hasRenderedWebview = true
     }
     else {
+      // 切换文档或修改 front matter 后布局可能变化
+      if (documentWidth !== this._lastDocumentWidth) {
+        void this._panel.webview.postMessage({ command: 'updateDocumentWidth', width: documentWidth })
+      }
+      if (fontFamily !== this._lastFontFamily) {
+        void this._panel.webview.postMessage({ command: 'updateFontFamily', fontFamily })
+      }
+
       const posted = await this._panel.webview.postMessage({
         command: 'updateContent',
         content: renderedContent,
+        documentUri: document.uri.toString(),
         frontMatterData,
         markdownThemeType: currentThemeType,
-        expandTocByDefault: this.getTocExpandSetting(),
+        tocConfig,
       })
 
       if (!posted) {
@@ -625,11 +939,59 @@ export class MarkdownPreviewPanel {
     }
 
     this._lastRenderUsedKatex = enableKatex
+    this._lastDocumentWidth = documentWidth
+    this._lastFontFamily = fontFamily
 
     // 更新面板标题 - 优先使用 front matter 中的 title
     this.updatePanelTitle(document, frontMatterData)
   }
 
+  /**
+   * 渲染 Markdown 并获取 front matter 数据
+   * 优先在渲染线程中渲染，其他扩展注册了 markdown-it 插件或渲染线程出错时在扩展进程中渲染
+   * @returns 渲染线程中的请求被更新的渲染取代时返回 undefined
+   */
+  private async renderMarkdown(
+    document: vscode.TextDocument,
+    content: string,
+    renderGeneration: number,
+  ): Promise<{ html: string, frontMatterData: any, env: MarkdownRenderEnv } | undefined> {
+    if (this._configService.getRenderInWorkerEnabled() && !PluginRegistry.hasMarkdownItPlugins) {
+      try {
+        const result = await RenderWorkerClient.render({
+          channel: this._renderChannel,
+          generation: renderGeneration,
+          content,
+          theme: this._themeService.currentTheme,
+          customThemes: this._themeService.customThemeSources,
+          options: {
+            customContainers: this._configService.getCustomContainers(),
+            documentUri: document.uri.toString(),
+          },
+        })
+        if (!result) {
+          return undefined
+        }
+
+        const html = await PluginRegistry.runPostRenderHooks(result.html, { document })
+        return {
+          html,
+          frontMatterData: result.frontMatterData,
+          env: { headings: result.headings, renderErrors: result.renderErrors },
+        }
+      }
+      catch (error) {
+        ErrorHandler.logError('渲染线程渲染失败，改为在扩展进程中渲染', error, 'MarkdownPreviewPanel')
+      }
+    }
+
+    // 获取 front matter 数据
+    const frontMatterData = this._markdownRenderer.getFrontMatterData(content)
+    const env: MarkdownRenderEnv = {}
+    const html = await this._markdownRenderer.render(content, document, env)
+    return { html, frontMatterData, env }
+  }
+
   private isRenderStale(document: vscode.TextDocument, renderGeneration: number): boolean {
     return this._isDisposed
       || renderGeneration !== this._renderGeneration
@@ -641,8 +1003,42 @@ export class MarkdownPreviewPanel {
    */
   private updatePanelTitle(document: vscode.TextDocument, frontMatterData: any): void {
     const fileName = document.fileName.split('/').pop() || 'Untitled'
-    const title = frontMatterData?.title || fileName
-    this._panel.title = title
+    this._baseTitle = frontMatterData?.title || fileName
+    this.applyPanelTitle()
+  }
+
+  /**
+   * 应用面板标题，锁定的面板带有锁定标记
+   */
+  private applyPanelTitle(): void {
+    this._panel.title = this._isLocked ? `[Locked] ${this._baseTitle}` : this._baseTitle
+  }
+
+  /**
+   * 切换面板锁定状态，锁定后面板不再跟随活动编辑器
+   */
+  public toggleLock(): void {
+    this._isLocked = !this._isLocked
+    this.applyPanelTitle()
+    this.updateLockContext()
+    this.saveState()
+  }
+
+  /**
+   * 同步锁定状态到上下文，供标题栏按钮切换图标
+   */
+  private updateLockContext(): void {
+    void vscode.commands.executeCommand('setContext', 'shikiMarkdownPreview.previewLocked', this._isLocked)
+  }
+
+  /**
+   * 保存面板状态，供序列化恢复使用
+   */
+  public saveState(): void {
+    this._stateManager.saveState(this._currentDocument, this._themeService.currentTheme, {
+      locked: this._isLocked,
+      history: this._navigator.history,
+    })
   }
 
   /**
@@ -652,7 +1048,7 @@ export class MarkdownPreviewPanel {
     const currentTheme = this._themeService.currentTheme
 
     // 保存状态
-    this._stateManager.saveState(document, currentTheme)
+    this.saveState()
 
     // 更新渲染缓存状态
     this._lastRenderedDocumentUri = document.uri.toString()
@@ -677,11 +1073,12 @@ export class MarkdownPreviewPanel {
    */
   private async renderEmptyPanel(): Promise<void> {
     const content = HTMLTemplateService.generateNoDocumentContent()
+    this._documentOverrides.clear()
     const themeCSSVariables = await this._themeService.getThemeCSSVariables()
 
     // 获取文档宽度配置
-    const documentWidth = this._configService.getDocumentWidth()
-    const fontFamily = this._configService.getFontFamily()
+    const documentWidth = this._documentOverrides.getDocumentWidth()
+    const fontFamily = this._documentOverrides.getFontFamily()
 
     this._panel.webview.html = HTMLTemplateService.generateHTML({
       webview: this._panel.webview,
@@ -693,7 +1090,8 @@ export class MarkdownPreviewPanel {
       fontFamily, // 传递字体设置
       enableScrollSync: this.getScrollSyncSetting(), // 传递滚动同步设置
       enableScrollSyncDebug: this.getScrollSyncDebugSetting(), // 传递滚动同步排查日志设置
-      expandTocByDefault: this.getTocExpandSetting(), // 传递目录展开设置
+      tocConfig: this._documentOverrides.getTocConfig(), // 传递目录配置
+      customStyleUris: this._customStyles.getWebviewUris(this._panel.webview), // 传递自定义样式
     })
     this._hasRenderedWebview = true
     this._isWebviewReady = false
@@ -708,8 +1106,8 @@ export class MarkdownPreviewPanel {
     const themeCSSVariables = await this._themeService.getThemeCSSVariables()
 
     // 获取文档宽度配置
-    const documentWidth = this._configService.getDocumentWidth()
-    const fontFamily = this._configService.getFontFamily()
+    const documentWidth = this._documentOverrides.getDocumentWidth()
+    const fontFamily = this._documentOverrides.getFontFamily()
 
     this._panel.webview.html = HTMLTemplateService.generateHTML({
       webview: this._panel.webview,
@@ -721,7 +1119,8 @@ export class MarkdownPreviewPanel {
       fontFamily, // 传递字体设置
       enableScrollSync: this.getScrollSyncSetting(), // 传递滚动同步设置
       enableScrollSyncDebug: this.getScrollSyncDebugSetting(), // 传递滚动同步排查日志设置
-      expandTocByDefault: this.getTocExpandSetting(), // 传递目录展开设置
+      tocConfig: this._documentOverrides.getTocConfig(), // 传递目录配置
+      customStyleUris: this._customStyles.getWebviewUris(this._panel.webview), // 传递自定义样式
     })
     this._hasRenderedWebview = true
     this._isWebviewReady = false
@@ -742,12 +1141,16 @@ export class MarkdownPreviewPanel {
     }
 
     try {
-      const nextTheme = this._themeService.effectiveTheme
+      // 文档在 front matter 中指定了主题时，设置中的主题变化不影响该文档
+      const documentTheme = this._documentOverrides.appliedTheme
+      const nextTheme = documentTheme ?? this._themeService.effectiveTheme
       if (nextTheme === this._themeService.currentTheme) {
         return
       }
 
-      const applied = await this._themeService.applyEffectiveTheme()
+      const applied = documentTheme
+        ? await this._themeService.updateThemeForPreview(documentTheme)
+        : await this._themeService.applyEffectiveTheme()
       if (!applied) {
         ErrorHandler.logWarning(`主题变化处理：无法应用主题 ${nextTheme}`, 'MarkdownPreviewPanel')
         return
@@ -771,6 +1174,51 @@ export class MarkdownPreviewPanel {
     }
   }
 
+  /**
+   * 自定义主题或已安装的扩展变化时，重新发现主题并整页刷新
+   */
+  private async handleCustomThemesChange(): Promise<void> {
+    if (!this._isInitialized) {
+      return
+    }
+
+    await this._themeService.reloadCustomThemes()
+    // 重建高亮器后使用的是设置中的主题，渲染时重新应用 front matter 中的主题
+    this._documentOverrides.resetTheme()
+    if (this._currentDocument) {
+      await this.updateContent(this._currentDocument, { forceFullReload: true })
+    }
+  }
+
+  /**
+   * Handle plugin registry change
+   */
+  private async handlePluginRegistryChange(): Promise<void> {
+    if (!this._isInitialized) {
+      return
+    }
+
+    this._panel.webview.options = HTMLTemplateService.getWebviewOptions(this._extensionUri, this._customStyles.localResourceRoots)
+    this._markdownRenderer.initialize()
+
+    if (this._currentDocument) {
+      await this.updateContent(this._currentDocument, { forceFullReload: true })
+    }
+  }
+
+  /**
+   * 重新解析当前文档使用的自定义样式，样式目录变化时更新 webview 可访问的资源目录
+   * @returns 样式列表是否发生变化
+   */
+  private updateCustomStyles(document: vscode.TextDocument): boolean {
+    if (!this._customStyles.update(document)) {
+      return false
+    }
+
+    this._panel.webview.options = HTMLTemplateService.getWebviewOptions(this._extensionUri, this._customStyles.localResourceRoots)
+    return true
+  }
+
   /**
    * Handle document width change
    */
@@ -781,7 +1229,7 @@ export class MarkdownPreviewPanel {
 
     try {
       // 获取新的文档宽度
-      const documentWidth = this._configService.getDocumentWidth()
+      const documentWidth = this._documentOverrides.getDocumentWidth()
 
       // 向webview发送文档宽度更新消息
       this._panel.webview.postMessage({
@@ -804,7 +1252,7 @@ export class MarkdownPreviewPanel {
 
     try {
       // 获取新的字体设置
-      const fontFamily = this._configService.getFontFamily()
+      const fontFamily = this._documentOverrides.getFontFamily()
 
       // 向webview发送字体更新消息
       this._panel.webview.postMessage({
@@ -826,7 +1274,11 @@ export class MarkdownPreviewPanel {
     }
     this._isDisposed = true
     this._renderGeneration++
-    MarkdownPreviewPanel.currentPanel = undefined
+    RenderWorkerClient.cancel(this._renderChannel)
+    MarkdownPreviewPanel.unregisterPanel(this)
+    if (this._currentDocument) {
+      RenderDiagnostics.clear(this._currentDocument.uri)
+    }
 
     this._debouncedUpdateContent?.cancel()
     this._debouncedUpdateContent = undefined
@@ -842,6 +1294,7 @@ export class MarkdownPreviewPanel {
     // 清理服务
     this._themeService.dispose()
     this._markdownRenderer.dispose()
+    this._customStyles.dispose()
 
     // 清理面板
     try {
@@ -867,6 +1320,13 @@ export class MarkdownPreviewPanel {
     return this._currentDocument
   }
 
+  /**
+   * webview 是否已加载完成并可以接收消息
+   */
+  get isWebviewReady(): boolean {
+    return this._isWebviewReady
+  }
+
   /**
    * Get the panel
    */
@@ -874,6 +1334,13 @@ export class MarkdownPreviewPanel {
     return this._panel
   }
 
+  /**
+   * Whether the panel is locked to its document
+   */
+  get isLocked(): boolean {
+    return this._isLocked
+  }
+
   /**
    * Get the theme service
    */
@@ -0,0 +1,142 @@
+import type { NavigationEntry, NavigationHistoryState } from '../../types/navigation'
+
+/**
+ * 最多保留的历史位置数量
+ */
+const MAX_ENTRIES = 50
+
+/**
+ * 预览内的导航历史
+ * 点击相对 Markdown 链接时记录跳转前后的位置，后退/前进时先用当前位置更新所在记录，
+ * 使返回时能回到离开前的滚动位置
+ */
+export class NavigationHistory {
+  private _entries: NavigationEntry[] = []
+  private _index: number = -1
+
+  /**
+   * 从保存的状态恢复，无效的记录会被丢弃
+   */
+  static from(state: unknown): NavigationHistory {
+    const history = new NavigationHistory()
+    if (!state || typeof state !== 'object') {
+      return history
+    }
+
+    const { entries, index } = state as Partial<NavigationHistoryState>
+    if (!Array.isArray(entries)) {
+      return history
+    }
+
+    history._entries = entries
+      .filter(entry => typeof entry?.documentUri === 'string' && Number.isInteger(entry.line))
+      .slice(-MAX_ENTRIES)
+      .map(entry => ({ documentUri: entry.documentUri, line: entry.line }))
+    history._index = Number.isInteger(index)
+      ? Math.min(Math.max(index!, 0), history._entries.length - 1)
+      : history._entries.length - 1
+    return history
+  }
+
+  /**
+   * 是否可以后退
+   * @param currentUri 预览当前显示的文档，与当前记录不同时视为一次新的位置
+   */
+  canGoBack(currentUri?: string): boolean {
+    return this.isAtCurrentEntry(currentUri) ? this._index > 0 : this._entries.length > 0
+  }
+
+  /**
+   * 是否可以前进
+   * @param currentUri 预览当前显示的文档
+   */
+  canGoForward(currentUri?: string): boolean {
+    return this.isAtCurrentEntry(currentUri) && this._index < this._entries.length - 1
+  }
+
+  /**
+   * 后退或前进将要跳转到的位置，不改变历史
+   * @param direction 导航方向
+   * @param currentUri 预览当前显示的文档
+   */
+  peek(direction: 'back' | 'forward', currentUri?: string): NavigationEntry | undefined {
+    if (direction === 'forward') {
+      return this.canGoForward(currentUri) ? this._entries[this._index + 1] : undefined
+    }
+    if (!this.canGoBack(currentUri)) {
+      return undefined
+    }
+    // 预览已切换到其他文档时，后退回到当前记录
+    return this.isAtCurrentEntry(currentUri) ? this._entries[this._index - 1] : this._entries[this._index]
+  }
+
+  /**
+   * 记录一次链接跳转，跳转后的前进记录被丢弃
+   * @param from 跳转前的位置
+   * @param to 跳转目标
+   */
+  push(from: NavigationEntry, to: NavigationEntry): void {
+    this.record(from)
+    this._entries.splice(this._index + 1, Infinity, to)
+
+    if (this._entries.length > MAX_ENTRIES) {
+      this._entries.splice(0, this._entries.length - MAX_ENTRIES)
+    }
+    this._index = this._entries.length - 1
+  }
+
+  /**
+   * 后退一步
+   * @param current 当前位置
+   * @returns 需要跳转到的位置，无法后退时返回 undefined
+   */
+  back(current: NavigationEntry): NavigationEntry | undefined {
+    if (!this.canGoBack(current.documentUri)) {
+      return undefined
+    }
+
+    this.record(current)
+    return this._entries[--this._index]
+  }
+
+  /**
+   * 前进一步
+   * @param current 当前位置
+   * @returns 需要跳转到的位置，无法前进时返回 undefined
+   */
+  forward(current: NavigationEntry): NavigationEntry | undefined {
+    if (!this.canGoForward(current.documentUri)) {
+      return undefined
+    }
+
+    this.record(current)
+    return this._entries[++this._index]
+  }
+
+  /**
+   * 导出可序列化的状态
+   */
+  toJSON(): NavigationHistoryState {
+    return {
+      entries: this._entries.map(entry => ({ ...entry })),
+      index: this._index,
+    }
+  }
+
+  private isAtCurrentEntry(currentUri?: string): boolean {
+    return currentUri === undefined || this._entries[this._index]?.documentUri === currentUri
+  }
+
+  /**
+   * 用当前位置更新当前记录；预览已切换到其他文档时，把该文档作为新位置追加
+   */
+  private record(current: NavigationEntry): void {
+    if (this.isAtCurrentEntry(current.documentUri) && this._index >= 0) {
+      this._entries[this._index] = current
+      return
+    }
+
+    this._entries.splice(this._index + 1, Infinity, current)
+    this._index = this._entries.length - 1
+  }
+}
@@ -0,0 +1,167 @@
+import type MarkdownIt from 'markdown-it'
+import type { Token } from 'markdown-it'
+import type { ContainerDefinition } from '../../../types/container'
+import type { ContainerColorName } from '../../../utils/theme-enhance'
+import { container } from '@mdit/plugin-container'
+import { escapeHtml } from '../../../utils/common'
+import { CONTAINER_COLORS } from '../../../utils/theme-enhance'
+
+/**
+ * 内置的自定义容器
+ */
+export const DEFAULT_CONTAINERS: ContainerDefinition[] = [
+  { name: 'info', title: 'INFO', icon: 'info', color: 'info' },
+  { name: 'warning', title: 'WARNING', icon: 'warning', color: 'warning' },
+  { name: 'danger', title: 'DANGER', icon: 'danger', color: 'danger' },
+  { name: 'tip', title: 'TIP', icon: 'tip', color: 'tip' },
+]
+
+/**
+ * 由样式表提供图标的内置图标名称
+ */
+const BUILTIN_ICONS = new Set(['info', 'warning', 'danger', 'tip', 'important'])
+
+/**
+ * 由其他容器规则占用的名称，不能被自定义容器覆盖
+ */
+const RESERVED_NAMES = new Set(['details'])
+
+const NAME_PATTERN = /^[\w-]+$/
+const CLASS_NAME_PATTERN = /^[\w\- ]+$/
+// 颜色会写入 style 属性，排除可能截断声明或属性的字符
+const COLOR_PATTERN = /^[^;{}<>"']+$/
+
+export interface CustomContainersOptions {
+  /** 返回当前渲染生效的容器定义，按名称索引 */
+  getDefinitions: () => Map<string, ContainerDefinition>
+}
+
+/**
+ * 合并多组容器定义，后出现的同名定义覆盖前面的定义，无效条目会被忽略
+ * @param sources 依次为内置定义、配置项、front matter 中的定义
+ */
+export function resolveContainerDefinitions(...sources: unknown[]): Map<string, ContainerDefinition> {
+  const definitions = new Map<string, ContainerDefinition>()
+
+  for (const source of sources) {
+    if (!Array.isArray(source)) {
+      continue
+    }
+
+    for (const item of source) {
+      const definition = normalizeDefinition(item)
+      if (definition) {
+        definitions.set(definition.name, { ...definitions.get(definition.name), ...definition })
+      }
+    }
+  }
+
+  return definitions
+}
+
+/**
+ * 校验单个容器定义，只保留合法字段
+ */
+function normalizeDefinition(item: unknown): ContainerDefinition | undefined {
+  if (!item || typeof item !== 'object') {
+    return undefined
+  }
+
+  const { name, title, className, icon, color } = item as Record<string, unknown>
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name) || RESERVED_NAMES.has(name)) {
+    return undefined
+  }
+
+  const definition: ContainerDefinition = { name }
+  if (typeof title === 'string') {
+    definition.title = title
+  }
+  if (typeof className === 'string' && CLASS_NAME_PATTERN.test(className)) {
+    definition.className = className.trim()
+  }
+  if (typeof icon === 'string') {
+    definition.icon = icon.trim()
+  }
+  if (typeof color === 'string' && COLOR_PATTERN.test(color)) {
+    definition.color = color.trim()
+  }
+  return definition
+}
+
+/**
+ * 取出容器标记后的名称
+ */
+function getContainerName(info: string): string {
+  return info.trim().split(/\s+/, 1)[0]
+}
+
+/**
+ * 生成容器颜色相关的 CSS 变量
+ */
+function getColorStyle(color: string | undefined): string {
+  if (!color) {
+    return ''
+  }
+
+  if (Object.hasOwn(CONTAINER_COLORS, color)) {
+    const name = color as ContainerColorName
+    return `--container-color: var(--markdown-container-${name}-color); --container-background: var(--markdown-container-${name}-background);`
+  }
+
+  return `--container-color: ${color}; --container-background: color-mix(in srgb, ${color} 16%, transparent);`
+}
+
+/**
+ * 生成容器标题前的图标
+ */
+function renderIcon(icon: string | undefined): string {
+  if (!icon || icon === 'none') {
+    return ''
+  }
+
+  if (BUILTIN_ICONS.has(icon)) {
+    return `<span class="custom-container-icon" data-icon="${icon}"></span>`
+  }
+
+  return `<span class="custom-container-icon">${escapeHtml(icon)}</span>`
+}
+
+/**
+ * 容器标题的层级，比容器之前最近的标题低一级，之前没有标题时为 2
+ */
+function getTitleLevel(tokens: Token[], idx: number): number {
+  for (let i = idx - 1; i >= 0; i--) {
+    if (tokens[i].type === 'heading_open') {
+      return Math.min(Number(tokens[i].tag.slice(1)) + 1, 6)
+    }
+  }
+  return 2
+}
+
+/**
+ * 自定义容器插件
+ * 通过一个通用的容器规则匹配所有已定义的容器名称，使配置和 front matter 中的定义无需重建 markdown-it 实例即可生效
+ */
+export function customContainers(md: MarkdownIt, options: CustomContainersOptions): void {
+  md.use(container, {
+    name: 'custom',
+    marker: ':',
+    validate: (params: string) => options.getDefinitions().has(getContainerName(params)),
+    openRender: (tokens, idx, _options, env) => {
+      const token = tokens[idx]
+      const name = getContainerName(token.info)
+      const definition = options.getDefinitions().get(name) ?? { name }
+
+      // 名称后面的文字作为标题，未填写时使用定义中的默认标题
+      const title = token.info.trim().slice(name.length).trim() || definition.title || name.toUpperCase()
+      const className = definition.className ?? name
+      const style = getColorStyle(definition.color)
+
+      // 标题通过 role="heading" 作为所在章节的下一级标题，不使用 h 标签，避免加入目录和大纲
+      return `<div class="custom-container ${escapeHtml(className)}"${style ? ` style="${escapeHtml(style)}"` : ''}>
+<div class="custom-container-title" role="heading" aria-level="${getTitleLevel(tokens, idx)}">${renderIcon(definition.icon)}<span class="custom-container-title-text">${md.renderInline(title, env)}</span></div>
+`
+    },
+    closeRender: () => '</div>\n',
+  })
+}
@@ -0,0 +1,97 @@
+import type MarkdownIt from 'markdown-it'
+import type { Token } from 'markdown-it'
+
+/**
+ * GitHub 提示块类型及其标题、图标
+ * 图标名称对应样式表中的内置容器图标，颜色与同名的容器调色板保持一致
+ */
+const ALERT_TYPES: Record<string, { title: string, icon: string }> = {
+  note: { title: 'Note', icon: 'info' },
+  tip: { title: 'Tip', icon: 'tip' },
+  important: { title: 'Important', icon: 'important' },
+  warning: { title: 'Warning', icon: 'warning' },
+  caution: { title: 'Caution', icon: 'danger' },
+}
+
+// 标记必须单独占据引用块的第一行，与 GitHub 行为一致
+const ALERT_MARKER_PATTERN = /^\[!(note|tip|important|warning|caution)\][ \t]*(?:\n|$)/i
+
+/**
+ * 查找与 blockquote_open 配对的 blockquote_close
+ */
+function findBlockquoteClose(tokens: Token[], openIndex: number): number {
+  const level = tokens[openIndex].level
+  for (let i = openIndex + 1; i < tokens.length; i++) {
+    if (tokens[i].type === 'blockquote_close' && tokens[i].level === level) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * GitHub 风格提示块插件
+ * 识别以 `[!NOTE]` 等标记开头的引用块，去掉标记并在 token.meta 上记录类型，
+ * 渲染时输出带图标的提示块。blockquote_open 仍保留原 token，因此 data-line 行号映射不受影响
+ */
+export function githubAlerts(md: MarkdownIt): void {
+  md.core.ruler.before('inline', 'github_alerts', (state) => {
+    const tokens = state.tokens
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== 'blockquote_open') {
+        continue
+      }
+
+      // 引用块的第一个子元素必须是段落
+      const paragraphOpen = tokens[i + 1]
+      const inline = tokens[i + 2]
+      if (paragraphOpen?.type !== 'paragraph_open' || inline?.type !== 'inline') {
+        continue
+      }
+
+      const match = inline.content.match(ALERT_MARKER_PATTERN)
+      const closeIndex = match ? findBlockquoteClose(tokens, i) : -1
+      if (!match || closeIndex < 0) {
+        continue
+      }
+
+      const alertType = match[1].toLowerCase()
+      tokens[i].meta = { ...tokens[i].meta, alertType }
+      tokens[closeIndex].meta = { ...tokens[closeIndex].meta, alertType }
+
+      inline.content = inline.content.slice(match[0].length)
+      if (!inline.content.trim()) {
+        // 标记后没有正文时移除空段落
+        tokens.splice(i + 1, 3)
+      }
+      else if (paragraphOpen.map) {
+        // 段落从标记的下一行开始，修正滚动同步使用的行号
+        paragraphOpen.map = [paragraphOpen.map[0] + 1, paragraphOpen.map[1]]
+      }
+    }
+  })
+
+  const defaultOpen = md.renderer.rules.blockquote_open
+  const defaultClose = md.renderer.rules.blockquote_close
+
+  md.renderer.rules.blockquote_open = (tokens, idx, options, env, self) => {
+    const token = tokens[idx]
+    const alert = ALERT_TYPES[token.meta?.alertType]
+    if (!alert) {
+      return defaultOpen ? defaultOpen(tokens, idx, options, env, self) : self.renderToken(tokens, idx, options)
+    }
+
+    token.attrJoin('class', `markdown-alert markdown-alert-${token.meta.alertType}`)
+    return `<div${self.renderAttrs(token)}>
+<p class="markdown-alert-title"><span class="custom-container-icon" data-icon="${alert.icon}"></span>${alert.title}</p>
+`
+  }
+
+  md.renderer.rules.blockquote_close = (tokens, idx, options, env, self) => {
+    if (!ALERT_TYPES[tokens[idx].meta?.alertType]) {
+      return defaultClose ? defaultClose(tokens, idx, options, env, self) : self.renderToken(tokens, idx, options)
+    }
+    return '</div>\n'
+  }
+}
@@ -0,0 +1,210 @@
+import type { NavigationEntry, NavigationHistoryState } from '../../types/navigation'
+import type { MarkdownPreviewPanel } from './markdown-preview'
+import type { MarkdownRenderer } from './markdown-renderer'
+import * as vscode from 'vscode'
+import { DocumentValidator } from '../../utils/document-validator'
+import { ErrorHandler } from '../../utils/error-handler'
+import { PathResolver } from '../../utils/path-resolver'
+import { findHeadingByFragment } from '../../utils/slugger'
+import { ConfigService } from '../config'
+import { NavigationHistory } from './navigation-history'
+
+/**
+ * 查找其他预览面板，由 MarkdownPreviewPanel 的静态成员提供
+ */
+type PreviewPanelLookup = Pick<typeof MarkdownPreviewPanel, 'getPanel' | 'followingPanel'>
+
+/**
+ * 预览内的链接跳转和后退/前进导航
+ * 目标文档已有自己的预览时切换到该面板，只有由当前面板显示的跳转才记录到导航历史
+ */
+export class PreviewNavigator {
+  private readonly _history: NavigationHistory
+  private readonly _configService = new ConfigService()
+
+  constructor(
+    private readonly _panel: MarkdownPreviewPanel,
+    private readonly _panels: PreviewPanelLookup,
+    private readonly _renderer: MarkdownRenderer,
+    history?: NavigationHistoryState,
+  ) {
+    this._history = NavigationHistory.from(history)
+  }
+
+  /**
+   * 可序列化的导航历史，随面板状态保存
+   */
+  get history(): NavigationHistoryState {
+    return this._history.toJSON()
+  }
+
+  /**
+   * 打开预览中点击的相对路径链接
+   * @param filePath 链接中的文件路径
+   * @param fragment 链接中 # 后面的标题锚点
+   * @param sourceLine 点击时预览顶部对应的行号
+   */
+  async openRelativeFile(filePath: string, fragment?: string, sourceLine?: number): Promise<void> {
+    const currentDocument = this._panel.currentDocument
+    if (!currentDocument) {
+      ErrorHandler.showError('无法获取当前文档信息')
+      return
+    }
+
+    // 解析相对路径
+    const currentFileUri = vscode.Uri.file(currentDocument.fileName)
+    const currentDir = vscode.Uri.joinPath(currentFileUri, '..')
+
+    // 验证和解析路径
+    const targetFile = PathResolver.validateAndResolvePath(currentDir, filePath)
+    if (!targetFile) {
+      ErrorHandler.showError(`无效或不安全的文件路径: ${filePath}`)
+      return
+    }
+
+    // 检查文件是否存在
+    const fileExists = await PathResolver.fileExists(targetFile)
+    if (!fileExists) {
+      ErrorHandler.showError(`文件不存在: ${filePath}`)
+      return
+    }
+
+    // 二进制、无法解码或过大的文件无法作为文本打开
+    const targetDocument = await ErrorHandler.safeExecute(
+      async () => vscode.workspace.openTextDocument(targetFile),
+      `无法打开文件: ${targetFile.fsPath}`,
+      'PreviewNavigator',
+    )
+    if (!targetDocument) {
+      return
+    }
+
+    // 使用预览的渲染器提取标题，锚点与预览中的标题 ID 一致
+    let targetLine: number | undefined
+    if (fragment) {
+      targetLine = findHeadingByFragment(this._renderer.extractHeadings(targetDocument.getText()), fragment)?.line
+      if (targetLine === undefined) {
+        ErrorHandler.showWarning(`未在 ${filePath} 中找到标题: #${fragment}`)
+      }
+    }
+
+    const stayInPreview = this._configService.getMarkdownLinkBehavior() === 'preview' && DocumentValidator.isMarkdownDocument(targetDocument)
+
+    // 由当前面板显示目标文件时记录到导航历史
+    const displayingPanel = this._panels.getPanel(targetDocument.uri)
+      ?? (stayInPreview ? this._panel : this._panels.followingPanel)
+    if (displayingPanel === this._panel && DocumentValidator.isMarkdownDocument(targetDocument)) {
+      this._history.push(
+        { documentUri: currentDocument.uri.toString(), line: Number.isInteger(sourceLine) ? sourceLine! : 0 },
+        { documentUri: targetDocument.uri.toString(), line: targetLine ?? 0 },
+      )
+      this._panel.saveState()
+    }
+
+    // 在预览内跳转，不打开编辑器；目标文件已有自己的预览时切换到该面板
+    if (stayInPreview) {
+      const targetPanel = this._panels.getPanel(targetDocument.uri) ?? this._panel
+      if (targetPanel === this._panel) {
+        await this._panel.updateContent(targetDocument)
+      }
+      else {
+        targetPanel.panel.reveal()
+      }
+      if (targetLine !== undefined) {
+        targetPanel.revealLine(targetLine)
+      }
+      return
+    }
+
+    // 安全地打开文件，并定位到标题所在行
+    const editor = await ErrorHandler.safeExecute(
+      async () => vscode.window.showTextDocument(targetDocument, vscode.ViewColumn.One),
+      `无法打开文件: ${targetFile.fsPath}`,
+      'PreviewNavigator',
+    )
+    if (!editor || targetLine === undefined) {
+      return
+    }
+
+    const position = new vscode.Position(targetLine, 0)
+    editor.selection = new vscode.Selection(position, position)
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop)
+
+    // 跟随该文件的预览在渲染完成后滚动到标题
+    this._panels.getPanel(targetDocument.uri)?.revealLine(targetLine)
+  }
+
+  /**
+   * 在导航历史中后退或前进
+   * 先向 webview 请求当前滚动位置，webview 不可用时直接按文档开头记录
+   */
+  navigate(direction: 'back' | 'forward'): void {
+    if (!this._panel.isWebviewReady) {
+      void this.performNavigation(direction)
+      return
+    }
+
+    void this._panel.panel.webview.postMessage({
+      command: 'requestHistoryNavigation',
+      direction,
+    })
+  }
+
+  /**
+   * 执行后退或前进
+   * @param direction 导航方向
+   * @param line webview 回传的当前滚动位置
+   */
+  async performNavigation(direction: 'back' | 'forward', line?: number): Promise<void> {
+    const currentDocument = this._panel.currentDocument
+    if (!currentDocument) {
+      return
+    }
+
+    const target = this._history.peek(direction, currentDocument.uri.toString())
+    if (!target) {
+      return
+    }
+
+    const targetDocument = await ErrorHandler.safeExecute(
+      async () => vscode.workspace.openTextDocument(vscode.Uri.parse(target.documentUri)),
+      `无法打开文件: ${target.documentUri}`,
+      'PreviewNavigator',
+    )
+
+    // 目标文件已有自己的预览时切换到该面板，当前面板的内容和历史保持不变
+    const ownerPanel = targetDocument && this._panels.getPanel(targetDocument.uri)
+    if (ownerPanel && ownerPanel !== this._panel) {
+      ownerPanel.panel.reveal()
+      ownerPanel.revealLine(target.line)
+      return
+    }
+
+    const current: NavigationEntry = {
+      documentUri: currentDocument.uri.toString(),
+      line: Number.isInteger(line) ? line! : 0,
+    }
+    const entry = direction === 'back' ? this._history.back(current) : this._history.forward(current)
+    if (!entry || !targetDocument) {
+      this.postState()
+      return
+    }
+
+    await this._panel.updateContent(targetDocument)
+    this._panel.revealLine(entry.line)
+    this._panel.saveState()
+    this.postState()
+  }
+
+  /**
+   * 同步后退/前进按钮的可用状态到 webview
+   */
+  postState(): void {
+    const currentUri = this._panel.currentDocument?.uri.toString()
+    void this._panel.panel.webview.postMessage({
+      command: 'updateNavigationState',
+      canGoBack: this._history.canGoBack(currentUri),
+      canGoForward: this._history.canGoForward(currentUri),
+    })
+  }
+}
@@ -0,0 +1,135 @@
+import type { CustomThemeSource } from '../../types/theme'
+import type { MarkdownRendererOptions, RenderedHeading, RenderError } from './shiki-markdown-renderer'
+import * as path from 'node:path'
+import { Worker } from 'node:worker_threads'
+import { Logger } from '../../utils/logger'
+
+/**
+ * 发送给渲染线程的渲染请求
+ */
+export interface RenderWorkerRequest {
+  /** 请求来源，同一来源只保留最新一代的渲染 */
+  channel: string
+  /** 渲染代次，来源中出现更新的代次后，尚未开始的旧请求会被取消 */
+  generation: number
+  content: string
+  theme: string
+  /** 扩展进程中可用的自定义主题，渲染线程据此加载相同的主题 */
+  customThemes: CustomThemeSource[]
+  options: MarkdownRendererOptions
+}
+
+/**
+ * 渲染线程返回的渲染结果
+ */
+export interface RenderWorkerResult {
+  html: string
+  frontMatterData: Record<string, any>
+  headings: RenderedHeading[]
+  renderErrors: RenderError[]
+}
+
+/**
+ * 扩展进程与渲染线程之间的消息
+ */
+export type RenderWorkerMessage
+  = | { type: 'render', id: number, request: RenderWorkerRequest }
+    | { type: 'cancel', channel: string }
+
+export type RenderWorkerResponse
+  = | { id: number, result: RenderWorkerResult }
+    | { id: number, cancelled: true }
+    | { id: number, error: string }
+
+interface PendingRequest {
+  resolve: (result: RenderWorkerResult | undefined) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * 渲染线程客户端
+ * 在独立线程中运行 Markdown 渲染和 Shiki 高亮，避免大文档阻塞扩展进程，所有预览共享同一个线程
+ */
+export class RenderWorkerClient {
+  private static _worker: Worker | undefined
+  private static _nextRequestId = 0
+  private static readonly _pending = new Map<number, PendingRequest>()
+
+  /**
+   * 在渲染线程中渲染 Markdown
+   * @returns 请求被更新的渲染取代时返回 undefined
+   */
+  static render(request: RenderWorkerRequest): Promise<RenderWorkerResult | undefined> {
+    const worker = RenderWorkerClient.getWorker()
+    const id = ++RenderWorkerClient._nextRequestId
+
+    return new Promise((resolve, reject) => {
+      RenderWorkerClient._pending.set(id, { resolve, reject })
+      worker.ref()
+      worker.postMessage({ type: 'render', id, request } satisfies RenderWorkerMessage)
+    })
+  }
+
+  /**
+   * 取消来源中所有尚未开始的渲染，在预览关闭时调用
+   */
+  static cancel(channel: string): void {
+    RenderWorkerClient._worker?.postMessage({ type: 'cancel', channel } satisfies RenderWorkerMessage)
+  }
+
+  static dispose(): void {
+    const worker = RenderWorkerClient._worker
+    RenderWorkerClient._worker = undefined
+    RenderWorkerClient.rejectPending(new Error('渲染线程已关闭'))
+    void worker?.terminate()
+  }
+
+  private static getWorker(): Worker {
+    if (RenderWorkerClient._worker) {
+      return RenderWorkerClient._worker
+    }
+
+    const worker = new Worker(path.join(__dirname, 'render-worker.js'))
+    worker.on('message', (response: RenderWorkerResponse) => {
+      const pending = RenderWorkerClient._pending.get(response.id)
+      RenderWorkerClient._pending.delete(response.id)
+      // 线程空闲时不阻止进程退出
+      if (RenderWorkerClient._pending.size === 0) {
+        worker.unref()
+      }
+      if (!pending) {
+        return
+      }
+
+      if ('result' in response) {
+        pending.resolve(response.result)
+      }
+      else if ('error' in response) {
+        pending.reject(new Error(response.error))
+      }
+      else {
+        pending.resolve(undefined)
+      }
+    })
+
+    // 线程异常退出后下次渲染时重新创建
+    worker.on('error', (error) => {
+      Logger.logError('渲染线程出错', error, 'RenderWorkerClient')
+    })
+    worker.on('exit', () => {
+      if (RenderWorkerClient._worker === worker) {
+        RenderWorkerClient._worker = undefined
+        RenderWorkerClient.rejectPending(new Error('渲染线程已退出'))
+      }
+    })
+    RenderWorkerClient._worker = worker
+    return worker
+  }
+
+  private static rejectPending(error: Error): void {
+    for (const pending of RenderWorkerClient._pending.values()) {
+      pending.reject(error)
+    }
+    RenderWorkerClient._pending.clear()
+  }
+}
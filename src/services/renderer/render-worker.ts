@@ -0,0 +1,110 @@
+import type { CustomThemeSource } from '../../types/theme'
+import type { RenderWorkerMessage, RenderWorkerRequest, RenderWorkerResponse, RenderWorkerResult } from './render-worker-client'
+import type { MarkdownRenderEnv } from './shiki-markdown-renderer'
+import { parentPort } from 'node:worker_threads'
+import { ShikiThemeService } from '../theme/shiki-theme-service'
+import { ShikiMarkdownRenderer } from './shiki-markdown-renderer'
+
+/**
+ * 渲染线程入口
+ * 由 RenderWorkerClient 创建，只能依赖不使用 VS Code API 的模块
+ */
+
+interface RenderContext {
+  themeService: ShikiThemeService
+  renderer: ShikiMarkdownRenderer
+  /** 创建时使用的自定义主题，变化后需要重新创建 */
+  customThemesKey: string
+}
+
+// 每个来源最新的渲染代次
+const latestGenerations = new Map<string, number>()
+let renderContext: Promise<RenderContext> | undefined
+// 渲染器在渲染期间会修改自身状态，请求需要依次处理
+let queue: Promise<void> = Promise.resolve()
+
+async function createRenderContext(theme: string, customThemes: CustomThemeSource[]): Promise<RenderContext> {
+  const themeService = new ShikiThemeService(theme, { customThemes })
+  await themeService.initializeHighlighter()
+  const renderer = new ShikiMarkdownRenderer(themeService)
+  renderer.initialize()
+  return { themeService, renderer, customThemesKey: JSON.stringify(customThemes) }
+}
+
+async function getRenderContext(theme: string, customThemes: CustomThemeSource[]): Promise<RenderContext> {
+  // 自定义主题列表变化后重新读取主题文件
+  const current = await renderContext?.catch(() => undefined)
+  if (current && current.customThemesKey !== JSON.stringify(customThemes)) {
+    current.renderer.dispose()
+    current.themeService.dispose()
+    renderContext = undefined
+  }
+
+  renderContext ??= createRenderContext(theme, customThemes).catch((error) => {
+    renderContext = undefined
+    throw error
+  })
+  return renderContext
+}
+
+function isStale(request: RenderWorkerRequest): boolean {
+  return request.generation < (latestGenerations.get(request.channel) ?? request.generation)
+}
+
+async function render(request: RenderWorkerRequest): Promise<RenderWorkerResult | undefined> {
+  const { themeService, renderer } = await getRenderContext(request.theme, request.customThemes)
+
+  // 与扩展进程中切换主题的流程一致
+  if (themeService.currentTheme !== request.theme) {
+    await themeService.updateThemeForPreview(request.theme)
+    await renderer.reloadLanguagesAfterThemeChange(request.content)
+  }
+
+  // 开始渲染后无法中断，语言加载完成后再检查一次
+  // 主题和语言加载可能只经过微任务，先让出事件循环以接收排队中的新请求
+  await themeService.preloadLanguagesFromContent(request.content)
+  await new Promise(resolve => setImmediate(resolve))
+  if (isStale(request)) {
+    return undefined
+  }
+
+  renderer.options = request.options
+  const env: MarkdownRenderEnv = {}
+  const html = await renderer.renderHtml(request.content, env)
+
+  return {
+    html,
+    frontMatterData: renderer.getFrontMatterData(request.content),
+    headings: env.headings ?? [],
+    renderErrors: env.renderErrors ?? [],
+  }
+}
+
+async function handleRender(id: number, request: RenderWorkerRequest): Promise<void> {
+  let response: RenderWorkerResponse
+  if (isStale(request)) {
+    response = { id, cancelled: true }
+  }
+  else {
+    try {
+      const result = await render(request)
+      response = result ? { id, result } : { id, cancelled: true }
+    }
+    catch (error) {
+      response = { id, error: error instanceof Error ? error.stack ?? error.message : String(error) }
+    }
+  }
+  parentPort?.postMessage(response)
+}
+
+parentPort?.on('message', (message: RenderWorkerMessage) => {
+  if (message.type === 'cancel') {
+    latestGenerations.set(message.channel, Number.POSITIVE_INFINITY)
+    return
+  }
+
+  // 收到消息时立即记录代次，使排队中的旧请求在开始前就能被取消
+  const { channel, generation } = message.request
+  latestGenerations.set(channel, Math.max(latestGenerations.get(channel) ?? generation, generation))
+  queue = queue.then(() => handleRender(message.id, message.request))
+})
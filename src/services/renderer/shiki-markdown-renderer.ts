@@ -0,0 +1,972 @@
+import type { Token } from 'markdown-it'
+import type { ContainerDefinition } from '../../types/container'
+import type { CacheStats } from '../../utils/lru-cache'
+import type { ShikiThemeService } from '../theme/shiki-theme-service'
+import { container } from '@mdit/plugin-container'
+import { katex } from '@mdit/plugin-katex'
+import matter from 'gray-matter'
+import MarkdownIt from 'markdown-it'
+import * as markdownItEmoji from 'markdown-it-emoji'
+import markdownItFootnote from 'markdown-it-footnote'
+import lazy_loading from 'markdown-it-image-lazy-loading'
+import markdownItIns from 'markdown-it-ins'
+import markdownItMark from 'markdown-it-mark'
+import markdownItSub from 'markdown-it-sub'
+import markdownItSup from 'markdown-it-sup'
+import markdownItTableOfContents from 'markdown-it-table-of-contents'
+import * as markdownItCheckbox from 'markdown-it-task-checkbox'
+import { decodeHtmlEntities, escapeHtml, resolveRelativeUri } from '../../utils/common'
+import { detectLanguages } from '../../utils/language-detector'
+import { Logger } from '../../utils/logger'
+import { hasMathExpressions } from '../../utils/math-detector'
+import { getHeadingText, GithubSlugger } from '../../utils/slugger'
+import { TOC_LEVELS } from '../toc/markdown-toc'
+import { customContainers, DEFAULT_CONTAINERS, resolveContainerDefinitions } from './plugins/custom-containers'
+import { githubAlerts } from './plugins/github-alerts'
+
+/**
+ * 渲染过程中收集到的标题信息
+ */
+export interface RenderedHeading {
+  level: number
+  text: string
+  id: string
+  /** 标题在源文件中的行号（从 0 开始，已计入 front matter） */
+  line: number
+}
+
+/**
+ * 渲染过程中发现的公式、图表或 front matter 错误
+ */
+export interface RenderError {
+  source: 'katex' | 'mermaid' | 'frontMatter'
+  /** 源文件中的行号（从 0 开始，已计入 front matter） */
+  line: number
+  message: string
+  severity: 'error' | 'warning'
+}
+
+/**
+ * 传递给 markdown-it 的渲染环境，渲染结束后可从中读取收集的信息
+ */
+export interface MarkdownRenderEnv {
+  /** 是否将相对 .md 链接改写为 .html，用于静态站点导出 */
+  rewriteMarkdownLinks?: boolean
+  /** 渲染过程中收集到的标题 */
+  headings?: RenderedHeading[]
+  /** 渲染过程中收集到的 KaTeX 错误 */
+  renderErrors?: RenderError[]
+}
+
+/**
+ * 渲染器选项，由调用方提供配置和文档信息
+ */
+export interface MarkdownRendererOptions {
+  /** 设置中声明的自定义容器，会与内置容器和 front matter 中的容器合并 */
+  customContainers?: ContainerDefinition[]
+  /** 当前文档的 URI，用于将相对链接解析为绝对地址 */
+  documentUri?: string
+}
+
+/** KaTeX 渲染错误内容时使用的颜色，也用于从输出中识别未定义的命令 */
+const KATEX_ERROR_COLOR = '#cc0000'
+
+/** KaTeX 插件注册的解析规则，front matter 中 math: false 时停用 */
+const KATEX_RULES = ['math_inline_dollar', 'math_block_dollar', 'math_inline_bracket', 'math_block_bracket']
+
+/** 原始 HTML 中的标题元素 */
+const RAW_HEADING_PATTERN = /<h([1-6])(\s[^>]*)?>([\s\S]*?)<\/h\1\s*>/gi
+
+/**
+ * Markdown 渲染器
+ * 使用 markdown-it 和 Shiki 将 Markdown 渲染为预览使用的 HTML，不依赖 VS Code API
+ */
+export class ShikiMarkdownRenderer {
+  private _markdownIt: MarkdownIt | undefined
+  private _themeService: ShikiThemeService
+  private _katexEnabled: boolean = false
+  // 正在渲染的公式所在行，供 KaTeX logger 定位警告
+  private _currentMathLine: number | undefined
+  private _containerDefinitions = resolveContainerDefinitions(DEFAULT_CONTAINERS)
+
+  constructor(themeService: ShikiThemeService, public options: MarkdownRendererOptions = {}) {
+    this._themeService = themeService
+  }
+
+  /**
+   * Initialize the markdown renderer
+   */
+  initialize(): void {
+    this._katexEnabled = false
+    this._markdownIt = new MarkdownIt({
+      html: true,
+      xhtmlOut: true,
+      breaks: false,
+      linkify: true,
+      typographer: true,
+      highlight: (code: string, lang: string) => {
+        return this.highlightCode(code, lang)
+      },
+    })
+
+    // 集成图片懒加载插件
+    this._markdownIt.use(lazy_loading)
+    this._markdownIt.use(markdownItEmoji.full)
+    this._markdownIt.use(markdownItFootnote)
+    this._markdownIt.use(markdownItIns)
+    this._markdownIt.use(markdownItMark)
+    this._markdownIt.use(markdownItSub)
+    this._markdownIt.use(markdownItSup)
+    const markdownItCheckboxPlugin = (markdownItCheckbox as any).default ?? markdownItCheckbox
+    this._markdownIt.use(markdownItCheckboxPlugin, { disabled: false })
+
+    this.setupContainerPlugins()
+    this.setupCustomRules()
+
+    // GitHub 风格提示块（> [!NOTE]）
+    this._markdownIt.use(githubAlerts)
+
+    // 最后应用其他扩展注册的插件，使其可以包装内置规则
+    this._markdownIt = this.applyMarkdownItPlugins(this._markdownIt)
+  }
+
+  /**
+   * 应用额外的 markdown-it 插件，在所有内置插件之后调用
+   * @returns 之后渲染使用的实例，插件可以返回新的实例
+   */
+  protected applyMarkdownItPlugins(markdownIt: MarkdownIt): MarkdownIt {
+    return markdownIt
+  }
+
+  /**
+   * 设置中声明的自定义容器
+   */
+  protected getCustomContainers(): ContainerDefinition[] {
+    return this.options.customContainers ?? []
+  }
+
+  /**
+   * 按需启用 KaTeX 数学公式支持
+   * @param content markdown 内容
+   * @param math front matter 中的 math 字段，布尔值时强制开启或关闭公式渲染
+   */
+  private enableKatexIfNeeded(content: string, math?: unknown): void {
+    if (!this._markdownIt) {
+      return
+    }
+
+    const hasMath = typeof math === 'boolean' ? math : hasMathExpressions(content)
+
+    if (hasMath && !this._katexEnabled) {
+      try {
+        // 启用 KaTeX 插件 - 使用官方推荐配置
+        this._markdownIt.use(katex, {
+          delimiters: 'all', // 同时支持美元符号和括号语法
+          allowInlineWithSpace: false, // 不允许两端带空格的内联数学
+          mathFence: false, // 不将 fence 块转换为数学公式
+          throwOnError: false, // 不抛出错误，而是显示错误信息
+          errorColor: KATEX_ERROR_COLOR, // 错误文本颜色
+          // 非严格模式下的警告交给 logger，返回 warn 时公式照常渲染，同时记录为诊断
+          logger: (errorCode: string, errorMsg: string, _token: unknown, env: MarkdownRenderEnv) => {
+            Logger.logWarning(`KaTeX 错误: ${errorCode} - ${errorMsg}`, 'MarkdownRenderer')
+            if (this._currentMathLine !== undefined) {
+              env?.renderErrors?.push({ source: 'katex', line: this._currentMathLine, message: errorMsg, severity: 'warning' })
+            }
+            return 'warn'
+          },
+        })
+        this.setupKatexErrorCollection()
+
+        this._katexEnabled = true
+        Logger.logInfo('已启用 KaTeX 数学公式支持', 'MarkdownRenderer')
+      }
+      catch (error) {
+        Logger.logError('启用 KaTeX 失败', error, 'MarkdownRenderer')
+      }
+    }
+
+    // 插件启用后无法移除，关闭公式时停用其解析规则
+    if (this._katexEnabled) {
+      if (math === false) {
+        this._markdownIt.disable(KATEX_RULES, true)
+      }
+      else {
+        this._markdownIt.enable(KATEX_RULES, true)
+      }
+    }
+  }
+
+  /**
+   * 包装公式渲染规则，从 KaTeX 输出中收集解析错误和未定义的命令
+   * 行内公式没有 token.map，由核心规则根据所在段落和换行记录行号
+   */
+  private setupKatexErrorCollection(): void {
+    if (!this._markdownIt) {
+      return
+    }
+
+    this._markdownIt.core.ruler.push('math_inline_lines', (state) => {
+      for (const token of state.tokens) {
+        if (token.type !== 'inline' || !token.map || !token.children) {
+          continue
+        }
+
+        let line = token.map[0]
+        for (const child of token.children) {
+          if (child.type === 'softbreak' || child.type === 'hardbreak') {
+            line++
+          }
+          else if (child.type === 'math_inline') {
+            child.meta = { ...child.meta, line }
+          }
+        }
+      }
+    })
+
+    for (const ruleName of ['math_inline', 'math_block']) {
+      const originalRule = this._markdownIt.renderer.rules[ruleName]
+      if (!originalRule) {
+        continue
+      }
+
+      this._markdownIt.renderer.rules[ruleName] = (tokens, idx, options, env, self) => {
+        const token = tokens[idx]
+        this._currentMathLine = token.map?.[0] ?? token.meta?.line
+        try {
+          const html = originalRule(tokens, idx, options, env, self)
+          this.collectKatexErrors(html, env as MarkdownRenderEnv)
+          return html
+        }
+        finally {
+          this._currentMathLine = undefined
+        }
+      }
+    }
+  }
+
+  /**
+   * 从公式的渲染结果中提取错误
+   */
+  private collectKatexErrors(html: string, env: MarkdownRenderEnv): void {
+    const line = this._currentMathLine
+    if (!env?.renderErrors || line === undefined) {
+      return
+    }
+
+    // 语法错误时 KaTeX 输出带 title 的 katex-error 元素
+    const parseError = html.match(/class=["']katex-error["'] title=(["'])([\s\S]*?)\1/)
+    if (parseError) {
+      env.renderErrors.push({ source: 'katex', line, message: decodeHtmlEntities(parseError[2]).replace(/^ParseError: (?:KaTeX parse error: )?/, '').trim(), severity: 'error' })
+      return
+    }
+
+    // 未定义的命令会以错误颜色原样输出
+    const undefinedCommands = html.matchAll(new RegExp(`<mstyle mathcolor="${KATEX_ERROR_COLOR}"><mtext>([^<]*)</mtext>`, 'g'))
+    for (const [, command] of undefinedCommands) {
+      env.renderErrors.push({ source: 'katex', line, message: `未定义的命令: ${decodeHtmlEntities(command)}`, severity: 'error' })
+    }
+  }
+
+  /**
+   * Set up container plugins for custom containers
+   */
+  private setupContainerPlugins(): void {
+    if (!this._markdownIt)
+      return
+
+    // 集成自定义容器支持，容器定义在每次渲染前根据配置和 front matter 更新
+    this._markdownIt.use(customContainers, {
+      getDefinitions: () => this._containerDefinitions,
+    })
+
+    // 集成details容器支持
+    this._markdownIt.use(container, {
+      name: 'details',
+      marker: ':',
+      validate: (params: string) => {
+        // @mdit/plugin-container 的验证函数
+        // 返回 true 表示接受这个容器
+        return params.trim().startsWith('details')
+      },
+      openRender: (tokens: any[], idx: number, _options: any, _env: any, _self: any) => {
+        const token = tokens[idx]
+        const info = token.info.trim()
+
+        // 默认值
+        let summary = '点击展开'
+        let attributes = ''
+        let isOpen = false
+
+        // 解析参数
+        if (info !== 'details') {
+          // 提取标题 [标题]
+          const titleMatch = info.match(/^details\s*\[([^\]]+)\]/)
+          if (titleMatch && titleMatch[1]) {
+            summary = titleMatch[1]
+          }
+
+          // 检查是否默认展开 {open}
+          if (info.includes('{open}')) {
+            isOpen = true
+          }
+
+          // 提取ID #id
+          const idMatch = info.match(/#([^\s{#.]+)/)
+          if (idMatch) {
+            attributes += ` id="${idMatch[1]}"`
+          }
+
+          // 提取类名 .class
+          const classMatches = info.match(/\.([^\s{#.]+)/g)
+          if (classMatches) {
+            const classes = classMatches.map((match: string) => match.substring(1)).join(' ')
+            attributes += ` class="${classes}"`
+          }
+
+          // 提取其他属性 {key="value"}
+          const attrMatches = info.match(/\{([^}]+)\}/g)
+          if (attrMatches) {
+            attrMatches.forEach((match: string) => {
+              const content = match.slice(1, -1) // 去掉 { 和 }
+              if (content !== 'open') { // 已经处理过 open
+                const parts = content.split('=')
+                if (parts.length === 2) {
+                  const key = parts[0].trim()
+                  const value = parts[1].trim().replace(/^["']|["']$/g, '')
+                  attributes += ` ${key}="${value}"`
+                }
+              }
+            })
+          }
+        }
+
+        return `<details${attributes}${isOpen ? ' open' : ''}>
+<summary>${summary}</summary>
+<div class="details-inner">
+`
+      },
+      closeRender: () => {
+        return `</div>
+</details>
+`
+      },
+    })
+  }
+
+  /**
+   * 合并内置容器、配置项和 front matter 中声明的容器
+   * @param frontMatterContainers front matter 中的 containers 字段
+   */
+  private updateContainerDefinitions(frontMatterContainers: unknown): void {
+    this._containerDefinitions = resolveContainerDefinitions(DEFAULT_CONTAINERS, this.getCustomContainers(), frontMatterContainers)
+  }
+
+  /**
+   * Set up custom rendering rules for relative paths
+   */
+  private setupCustomRules(): void {
+    if (!this._markdownIt)
+      return
+
+    this._markdownIt.renderer.rules.link_open = (tokens, idx, options, env, renderer) => {
+      const token = tokens[idx]
+      const hrefIndex = token.attrIndex('href')
+
+      if (hrefIndex >= 0 && token.attrs && token.attrs[hrefIndex]) {
+        const href = token.attrs[hrefIndex][1]
+        // 导出静态站点时，相对 .md 链接指向生成的 .html 页面
+        if ((env as MarkdownRenderEnv).rewriteMarkdownLinks && !/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+          token.attrs[hrefIndex][1] = href.replace(/\.(?:md|markdown)(?=[?#]|$)/i, '.html')
+          return renderer.renderToken(tokens, idx, options)
+        }
+        // 对于锚点链接（以#开头），保持原样，不进行任何处理
+        if (href.startsWith('#')) {
+          // 锚点链接，保持原样
+          return renderer.renderToken(tokens, idx, options)
+        }
+        // 对于 .md 文件（可带 #锚点），保持相对路径，由预览中的链接处理跳转
+        if (!href.startsWith('http') && !href.startsWith('data:') && !/\.(?:md|markdown)(?=[?#]|$)/i.test(href)) {
+          const resolvedUri = this.options.documentUri ? resolveRelativeUri(this.options.documentUri, href) : null
+          if (resolvedUri) {
+            token.attrs[hrefIndex][1] = resolvedUri
+          }
+        }
+      }
+
+      return renderer.renderToken(tokens, idx, options)
+    }
+
+    // 在核心阶段为标题添加 id 属性，使渲染时位于标题之前的 [[toc]] 目录也能拿到锚点
+    // 放在 typographer 替换之前，保证用于计算锚点的文本与 GitHub 一致
+    this._markdownIt.core.ruler.after('linkify', 'heading_ids', (state) => {
+      const renderEnv = state.env as MarkdownRenderEnv
+      const tokens = state.tokens
+      const slugger = new GithubSlugger()
+
+      for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i]
+        const inline = tokens[i + 1]
+        if (token.type === 'html_block') {
+          token.content = this.addRawHeadingIds(token, slugger, renderEnv)
+          continue
+        }
+        if (token.type !== 'heading_open' || inline?.type !== 'inline') {
+          continue
+        }
+
+        const titleText = getHeadingText(inline).trim()
+        const id = slugger.slug(titleText)
+        token.attrSet('id', id)
+
+        // 记录标题信息，供目录或侧边栏使用
+        renderEnv.headings?.push({
+          level: Number(token.tag.slice(1)),
+          text: titleText,
+          id,
+          line: token.map?.[0] ?? 0,
+        })
+      }
+    })
+
+    // [[toc]] / [TOC] 占位符渲染为文档内目录，直接使用上面生成的标题 id
+    this._markdownIt.use(markdownItTableOfContents, {
+      markerPattern: /^(?:\[\[toc\]\]|\[toc\])[ \t]*$/im,
+      includeLevel: TOC_LEVELS,
+      containerClass: 'table-of-contents',
+    })
+  }
+
+  /**
+   * 为原始 HTML 中没有 id 的标题补齐锚点，与 Markdown 标题共用同一个生成器，预览页面无需再计算
+   */
+  private addRawHeadingIds(token: Token, slugger: GithubSlugger, env: MarkdownRenderEnv): string {
+    return token.content.replace(RAW_HEADING_PATTERN, (match, level: string, attrs: string | undefined, inner: string) => {
+      if (attrs && /\sid\s*=/i.test(attrs)) {
+        return match
+      }
+
+      const titleText = decodeHtmlEntities(inner.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim()
+      if (!titleText) {
+        return match
+      }
+
+      const id = slugger.slug(titleText)
+      env.headings?.push({ level: Number(level), text: titleText, id, line: token.map?.[0] ?? 0 })
+      return match.replace(/^<h[1-6]/i, `$& id="${escapeHtml(id)}"`)
+    })
+  }
+
+  /**
+   * Highlight code using the theme service
+   */
+  private highlightCode(code: string, lang: string): string {
+    if (!lang || !this._themeService.highlighter) {
+      return `<pre><code>${escapeHtml(code)}</code></pre>`
+    }
+
+    try {
+      // 解析语言标识符中的行号信息
+      const { language, highlightLines } = this.parseLanguageWithHighlight(lang)
+
+      // 使用同步版本的 highlightCode 方法，传递行号信息
+      const highlighted = this._themeService.highlightCode(code, language, highlightLines)
+
+      // 如果结果是空的，返回基本的 HTML
+      if (!highlighted) {
+        return `<pre><code class="language-${escapeHtml(language)}" data-lang="${escapeHtml(language)}">${escapeHtml(code)}</code></pre>`
+      }
+
+      // 确保高亮后的 HTML 包含语言信息
+      // 检查是否已经包含 language- 类
+      if (highlighted.includes(`class="language-${language}"`) || highlighted.includes(`class='language-${language}'`)) {
+        return highlighted
+      }
+
+      // 如果没有语言类，添加它
+      // 查找 <code> 标签并添加语言信息
+      const codeTagRegex = /<code([^>]*)>/i
+      const match = highlighted.match(codeTagRegex)
+
+      if (match) {
+        const existingAttrs = match[1] || ''
+        const newAttrs = existingAttrs.includes('class=')
+          ? existingAttrs.replace(/class="([^"]*)"/, `class="$1 language-${escapeHtml(language)}"`)
+          : `${existingAttrs} class="language-${escapeHtml(language)}"`
+
+        return highlighted.replace(codeTagRegex, `<code${newAttrs} data-lang="${escapeHtml(language)}">`)
+      }
+
+      // 如果无法找到 code 标签，返回原始高亮结果
+      return highlighted
+    }
+    catch {
+      Logger.logWarning(`代码高亮失败: ${lang}`, 'MarkdownRenderer')
+      return `<pre><code class="language-${escapeHtml(lang)}" data-lang="${escapeHtml(lang)}">${escapeHtml(code)}</code></pre>`
+    }
+  }
+
+  /**
+   * 智能高亮代码 - 异步版本，自动处理语言加载
+   */
+  private async smartHighlightCode(code: string, lang: string): Promise<string> {
+    if (!lang || !this._themeService.highlighter) {
+      return `<pre><code>${escapeHtml(code)}</code></pre>`
+    }
+
+    try {
+      // 解析语言标识符中的行号信息
+      const { language, highlightLines } = this.parseLanguageWithHighlight(lang)
+
+      // 使用智能高亮方法，自动处理语言加载
+      const highlighted = await this._themeService.smartHighlightCode(code, language, highlightLines)
+
+      // 如果结果是空的，返回基本的 HTML
+      if (!highlighted) {
+        return `<pre><code class="language-${escapeHtml(language)}" data-lang="${escapeHtml(language)}">${escapeHtml(code)}</code></pre>`
+      }
+
+      // 确保高亮后的 HTML 包含语言信息
+      // 检查是否已经包含 language- 类
+      if (highlighted.includes(`class="language-${language}"`) || highlighted.includes(`class='language-${language}'`)) {
+        return highlighted
+      }
+
+      // 如果没有语言类，添加它
+      // 查找 <code> 标签并添加语言信息
+      const codeTagRegex = /<code([^>]*)>/i
+      const match = highlighted.match(codeTagRegex)
+
+      if (match) {
+        const existingAttrs = match[1] || ''
+        const newAttrs = existingAttrs.includes('class=')
+          ? existingAttrs.replace(/class="([^"]*)"/, `class="$1 language-${escapeHtml(language)}"`)
+          : `${existingAttrs} class="language-${escapeHtml(language)}"`
+
+        return highlighted.replace(codeTagRegex, `<code${newAttrs} data-lang="${escapeHtml(language)}">`)
+      }
+
+      // 如果无法找到 code 标签，返回原始高亮结果
+      return highlighted
+    }
+    catch {
+      Logger.logWarning(`智能代码高亮失败: ${lang}`, 'MarkdownRenderer')
+      return `<pre><code class="language-${escapeHtml(lang)}" data-lang="${escapeHtml(lang)}">${escapeHtml(code)}</code></pre>`
+    }
+  }
+
+  /**
+   * 解析语言标识符，提取语言和行号高亮信息
+   * 支持格式：javascript{1,3-5} 或 javascript{1,3,4,5}
+   * @param lang 语言标识符
+   * @returns 解析后的语言和行号数组
+   */
+  private parseLanguageWithHighlight(lang: string): { language: string, highlightLines: number[] } {
+    // 匹配格式：language{1,3-5} 或 language{1,3,4,5}
+    const match = lang.match(/^([^{]+)(?:\{([^}]+)\})?$/)
+
+    if (!match) {
+      return { language: lang, highlightLines: [] }
+    }
+
+    const language = match[1].trim()
+    const highlightSpec = match[2]
+
+    if (!highlightSpec) {
+      return { language, highlightLines: [] }
+    }
+
+    // 解析行号范围，支持：1,3-5,7,9-12
+    const highlightLines: number[] = []
+    const parts = highlightSpec.split(',')
+
+    for (const part of parts) {
+      const trimmedPart = part.trim()
+
+      if (trimmedPart.includes('-')) {
+        // 处理范围，如 3-5
+        const [start, end] = trimmedPart.split('-').map(n => Number.parseInt(n.trim(), 10))
+        if (!Number.isNaN(start) && !Number.isNaN(end) && start <= end) {
+          for (let i = start; i <= end; i++) {
+            highlightLines.push(i)
+          }
+        }
+      }
+      else {
+        // 处理单个行号，如 1 或 7
+        const lineNum = Number.parseInt(trimmedPart, 10)
+        if (!Number.isNaN(lineNum)) {
+          highlightLines.push(lineNum)
+        }
+      }
+    }
+
+    return { language, highlightLines }
+  }
+
+  /**
+   * Parse front matter from markdown content
+   */
+  parseFrontMatter(content: string): { content: string, data: any } {
+    try {
+      const parsed = matter(content)
+      return {
+        content: parsed.content, // 只使用内容部分，忽略元数据
+        data: parsed.data,
+      }
+    }
+    catch {
+      Logger.logWarning('Front matter 解析失败', 'MarkdownRenderer')
+      return {
+        content,
+        data: {},
+      }
+    }
+  }
+
+  /**
+   * Render markdown content with reliable line number mapping for scroll sync
+   * 为每个块级元素添加 data-line 属性，确保精确的滚动同步
+   * 传入的 env 在渲染后会填充收集到的标题等信息
+   */
+  async renderHtml(content: string, env: MarkdownRenderEnv = {}): Promise<string> {
+    if (!this._markdownIt) {
+      throw new Error('Markdown renderer not initialized')
+    }
+
+    try {
+      // 使用 gray-matter 分离 front matter 和内容
+      const { content: markdownContent, data: frontMatterData } = this.parseFrontMatter(content)
+      const sourceLineOffset = this.getSourceLineOffset(content, markdownContent)
+
+      // 按需启用 KaTeX 数学公式支持
+      this.enableKatexIfNeeded(markdownContent, frontMatterData?.math)
+
+      // 更新本次渲染可用的自定义容器
+      this.updateContainerDefinitions(frontMatterData?.containers)
+
+      // 在渲染前检测并预加载需要的语言
+      await this._preloadLanguagesForContent(content)
+
+      // 获取所有行用于行号映射
+      const lines = markdownContent.split('\n')
+      let currentLine = 0
+
+      // 保存原始渲染规则
+      const originalRules = {
+        heading_open: this._markdownIt.renderer.rules.heading_open,
+        paragraph_open: this._markdownIt.renderer.rules.paragraph_open,
+        list_item_open: this._markdownIt.renderer.rules.list_item_open,
+        blockquote_open: this._markdownIt.renderer.rules.blockquote_open,
+        code_block: this._markdownIt.renderer.rules.code_block,
+        fence: this._markdownIt.renderer.rules.fence,
+        table_open: this._markdownIt.renderer.rules.table_open,
+        hr: this._markdownIt.renderer.rules.hr,
+        dl_open: this._markdownIt.renderer.rules.dl_open,
+        dt_open: this._markdownIt.renderer.rules.dt_open,
+        dd_open: this._markdownIt.renderer.rules.dd_open,
+      }
+
+      /**
+       * 为元素添加 data-line 属性的通用函数
+       * 确保每个块级元素都有准确的行号映射
+       */
+      const addLineNumber = (tokens: any[], idx: number, options: any, env: any, renderer: any, ruleName: string) => {
+        const token = tokens[idx]
+        if (token && currentLine < lines.length) {
+          // 找到当前 token 对应的源代码行号
+          const lineNumber = this.findSourceLineNumber(tokens, idx, lines, currentLine)
+          if (lineNumber !== -1) {
+            token.attrSet?.('data-line', (lineNumber + sourceLineOffset).toString())
+            currentLine = lineNumber + 1
+          }
+        }
+
+        // 调用原始渲染规则
+        const originalRule = originalRules[ruleName as keyof typeof originalRules]
+        return originalRule ? originalRule(tokens, idx, options, env, renderer) : renderer.renderToken(tokens, idx, options)
+      }
+
+      // 覆盖各种块级元素的渲染规则以添加 data-line 属性
+      this._markdownIt.renderer.rules.heading_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'heading_open')
+
+      this._markdownIt.renderer.rules.paragraph_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'paragraph_open')
+
+      this._markdownIt.renderer.rules.list_item_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'list_item_open')
+
+      this._markdownIt.renderer.rules.blockquote_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'blockquote_open')
+
+      this._markdownIt.renderer.rules.code_block = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'code_block')
+
+      this._markdownIt.renderer.rules.fence = (tokens, idx, options, env, renderer) => {
+        const html = addLineNumber(tokens, idx, options, env, renderer, 'fence')
+        // 高亮结果自带 <pre> 标签，markdown-it 不会附加 token 上的属性，这里补上行号
+        const line = tokens[idx].attrGet('data-line')
+        return line !== null && html.startsWith('<pre') && !/^<pre[^>]*\sdata-line=/.test(html)
+          ? html.replace(/^<pre/, `<pre data-line="${line}"`)
+          : html
+      }
+
+      this._markdownIt.renderer.rules.table_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'table_open')
+
+      this._markdownIt.renderer.rules.hr = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'hr')
+
+      this._markdownIt.renderer.rules.dl_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'dl_open')
+
+      this._markdownIt.renderer.rules.dt_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'dt_open')
+
+      this._markdownIt.renderer.rules.dd_open = (tokens, idx, options, env, renderer) =>
+        addLineNumber(tokens, idx, options, env, renderer, 'dd_open')
+
+      let html: string
+      const cacheStatsBefore = this._themeService.highlightCacheStats
+      try {
+        // 渲染 HTML
+        env.headings = []
+        env.renderErrors = []
+        html = this._markdownIt.render(markdownContent, env)
+        for (const item of [...env.headings, ...env.renderErrors]) {
+          item.line += sourceLineOffset
+        }
+
+        // 验证 data-line 属性的完整性
+        this.validateLineMapping(html, lines.length)
+      }
+      finally {
+        Object.assign(this._markdownIt.renderer.rules, originalRules)
+      }
+
+      this.logHighlightCacheStats(cacheStatsBefore)
+      return html
+    }
+    catch (error) {
+      Logger.logError('渲染失败: Markdown 渲染', error, 'MarkdownRenderer')
+      throw error
+    }
+  }
+
+  /**
+   * 输出本次渲染的代码块高亮缓存命中情况
+   */
+  private logHighlightCacheStats(before: CacheStats): void {
+    const after = this._themeService.highlightCacheStats
+    const hits = after.hits - before.hits
+    const misses = after.misses - before.misses
+    if (hits + misses > 0) {
+      Logger.logInfo(`代码高亮缓存: 命中 ${hits}, 未命中 ${misses}, 缓存 ${after.size} 项`, 'MarkdownRenderer')
+    }
+  }
+
+  /**
+   * 解析 Markdown 内容为 token 流，不进行渲染
+   * token.map 中的行号基于去掉 front matter 后的正文，需加上返回的 sourceLineOffset 才是源文件行号
+   */
+  parse(content: string, env: MarkdownRenderEnv = {}): { tokens: Token[], sourceLineOffset: number } {
+    if (!this._markdownIt) {
+      throw new Error('Markdown renderer not initialized')
+    }
+
+    const { content: markdownContent, data: frontMatterData } = this.parseFrontMatter(content)
+    this.enableKatexIfNeeded(markdownContent, frontMatterData?.math)
+    this.updateContainerDefinitions(frontMatterData?.containers)
+
+    env.headings = []
+    const tokens = this._markdownIt.parse(markdownContent, env)
+    const sourceLineOffset = this.getSourceLineOffset(content, markdownContent)
+    for (const heading of env.headings) {
+      heading.line += sourceLineOffset
+    }
+    return { tokens, sourceLineOffset }
+  }
+
+  /**
+   * 提取文档中的标题，ID 与渲染结果中的锚点一致
+   */
+  extractHeadings(content: string): RenderedHeading[] {
+    const env: MarkdownRenderEnv = {}
+    this.parse(content, env)
+    return env.headings ?? []
+  }
+
+  /**
+   * Get front matter data from markdown content
+   */
+  getFrontMatterData(content: string): any {
+    const { data } = this.parseFrontMatter(content)
+    return data
+  }
+
+  /**
+   * 为内容预加载需要的语言
+   * @param content Markdown 内容
+   */
+  private async _preloadLanguagesForContent(content: string): Promise<void> {
+    try {
+      const languages = detectLanguages(content)
+
+      if (languages.length === 0) {
+        return
+      }
+
+      Logger.logInfo(`内容分析: ${languages.length} 种语言`, 'MarkdownRenderer')
+
+      await this._themeService.preloadLanguages(languages)
+    }
+    catch {
+      Logger.logWarning('语言预加载失败', 'MarkdownRenderer')
+      // 不抛出错误，继续渲染
+    }
+  }
+
+  /**
+   * 主题切换后重新加载语言
+   * 解决主题切换后代码块高亮失效的问题
+   */
+  async reloadLanguagesAfterThemeChange(content: string): Promise<void> {
+    try {
+      await this._themeService.reloadLanguagesAfterThemeChange(content)
+    }
+    catch (error) {
+      Logger.logError('主题切换后语言重新加载失败', error, 'MarkdownRenderer')
+    }
+  }
+
+  get markdownIt(): MarkdownIt | undefined {
+    return this._markdownIt
+  }
+
+  /**
+   * 查找 token 对应的源代码行号
+   * 通过分析 token 内容和位置来确定最准确的行号
+   */
+  private findSourceLineNumber(tokens: any[], tokenIdx: number, lines: string[], startLine: number): number {
+    const token = tokens[tokenIdx]
+    if (!token)
+      return -1
+
+    // 如果 token 已经有行号信息，直接使用
+    if (token.map && token.map[0] !== undefined) {
+      return token.map[0]
+    }
+
+    // 对于没有 map 信息的 token，尝试从内容匹配
+    const tokenContent = this.extractTokenContent(tokens, tokenIdx)
+    if (!tokenContent)
+      return startLine
+
+    // 在源代码中查找匹配的行
+    for (let i = startLine; i < lines.length; i++) {
+      const line = lines[i].trim()
+      if (line && tokenContent.includes(line)) {
+        return i
+      }
+    }
+
+    // 如果找不到匹配，返回当前位置
+    return startLine
+  }
+
+  /**
+   * 计算渲染内容在原文件中的起始行，避免 front matter 存在时行号偏移。
+   */
+  private getSourceLineOffset(originalContent: string, renderedContent: string): number {
+    if (!renderedContent) {
+      return 0
+    }
+
+    const contentStart = originalContent.indexOf(renderedContent)
+    if (contentStart <= 0) {
+      return 0
+    }
+
+    return originalContent.slice(0, contentStart).split('\n').length - 1
+  }
+
+  /**
+   * 提取 token 的文本内容用于匹配
+   */
+  private extractTokenContent(tokens: any[], idx: number): string {
+    const token = tokens[idx]
+    if (!token)
+      return ''
+
+    let content = ''
+    const tokenType = token.type
+
+    // 根据 token 类型提取内容
+    if (tokenType === 'heading_open') {
+      // 查找对应的 heading_close 之间的内容
+      for (let i = idx + 1; i < tokens.length; i++) {
+        if (tokens[i].type === 'heading_close')
+          break
+        if (tokens[i].type === 'inline') {
+          content += tokens[i].content
+        }
+      }
+    }
+    else if (tokenType === 'paragraph_open') {
+      // 查找对应的 paragraph_close 之间的内容
+      for (let i = idx + 1; i < tokens.length; i++) {
+        if (tokens[i].type === 'paragraph_close')
+          break
+        if (tokens[i].type === 'inline') {
+          content += tokens[i].content
+        }
+      }
+    }
+    else if (tokenType === 'list_item_open') {
+      // 查找对应的 list_item_close 之间的内容
+      for (let i = idx + 1; i < tokens.length; i++) {
+        if (tokens[i].type === 'list_item_close')
+          break
+        if (tokens[i].type === 'inline') {
+          content += tokens[i].content
+        }
+      }
+    }
+    else if (tokenType === 'fence') {
+      // 代码块，使用语言信息和第一行代码
+      content = token.info || ''
+      if (token.content) {
+        const firstLine = token.content.split('\n')[0]
+        content += ` ${firstLine}`
+      }
+    }
+    else if (tokenType === 'code_block') {
+      // 简单代码块
+      content = token.content || ''
+    }
+
+    return content.trim()
+  }
+
+  /**
+   * 验证行号映射的完整性
+   * 确保生成的 HTML 包含足够的 data-line 属性
+   */
+  private validateLineMapping(html: string, totalLines: number): void {
+    // 统计 data-line 属性的数量
+    const dataLineMatches = html.match(/data-line="\d+"/g)
+    const dataLineCount = dataLineMatches ? dataLineMatches.length : 0
+
+    // 记录统计信息用于调试
+    if (dataLineCount < Math.max(1, totalLines * 0.1)) { // 至少应该有10%的行有映射
+      console.warn(`[MarkdownRenderer] 行号映射可能不完整: ${dataLineCount} 个 data-line 属性，总共 ${totalLines} 行`)
+    }
+    else {
+      // 行号映射完成
+    }
+  }
+
+  dispose(): void {
+    this._markdownIt = undefined
+  }
+}
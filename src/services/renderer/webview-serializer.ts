@@ -1,10 +1,14 @@
+import type { NavigationHistoryState } from '../../types/navigation'
 import * as vscode from 'vscode'
+import { HTMLTemplateService } from './html-template-service'
 import { MarkdownPreviewPanel } from './markdown-preview'
 
 export interface WebviewState {
   documentUri: string
   theme: string
   timestamp: number
+  locked?: boolean
+  history?: NavigationHistoryState
 }
 
 export class MarkdownPreviewSerializer implements vscode.WebviewPanelSerializer {
@@ -13,16 +17,10 @@ export class MarkdownPreviewSerializer implements vscode.WebviewPanelSerializer
 
   async deserializeWebviewPanel(webviewPanel: vscode.WebviewPanel, _state: WebviewState | undefined) {
     // 设置 webview 选项
-    webviewPanel.webview.options = {
-      enableScripts: true,
-      localResourceRoots: [
-        vscode.Uri.joinPath(this.extensionUri, 'src/webview'),
-        vscode.Uri.joinPath(this.extensionUri, 'src/webview/modules'),
-      ],
-    }
+    webviewPanel.webview.options = HTMLTemplateService.getWebviewOptions(this.extensionUri)
 
-    // 恢复面板
-    MarkdownPreviewPanel.revive(webviewPanel, this.extensionUri)
+    // 恢复面板，每个被序列化的面板都会独立恢复
+    const previewPanel = MarkdownPreviewPanel.revive(webviewPanel, this.extensionUri, undefined, _state?.locked, _state?.history)
 
     // 智能文档恢复策略
     const documentToRestore = await this.findDocumentToRestore(_state)
@@ -32,41 +30,22 @@ export class MarkdownPreviewSerializer implements vscode.WebviewPanelSerializer
       await this.waitForWebviewReady(webviewPanel)
 
       // 更新内容
-      if (MarkdownPreviewPanel.currentPanel) {
-        await MarkdownPreviewPanel.currentPanel.updateContent(documentToRestore)
-
-        // 滚动同步逻辑已移除
+      await previewPanel.updateContent(documentToRestore)
 
-        // 聚焦到文档
-        await vscode.window.showTextDocument(documentToRestore, vscode.ViewColumn.One)
-      }
+      // 聚焦到文档
+      await vscode.window.showTextDocument(documentToRestore, vscode.ViewColumn.One)
     }
   }
 
   /**
    * 智能文档恢复策略
    * 按优先级查找要恢复的文档：
-   * 1. 活动编辑器中的 Markdown 文件
-   * 2. 可见编辑器中的第一个 Markdown 文件
-   * 3. 从保存的状态中恢复的文档URI
+   * 1. 从保存的状态中恢复的文档URI
+   * 2. 活动编辑器中尚无预览的 Markdown 文件
+   * 3. 可见编辑器中第一个尚无预览的 Markdown 文件
    */
   private async findDocumentToRestore(_state: WebviewState | undefined): Promise<vscode.TextDocument | undefined> {
-    // 1. 优先选择活动编辑器中的 Markdown 文件
-    const activeEditor = vscode.window.activeTextEditor
-    if (activeEditor && activeEditor.document.languageId === 'markdown') {
-      return activeEditor.document
-    }
-
-    // 2. 查找可见编辑器中的第一个 Markdown 文件
-    const visibleEditors = vscode.window.visibleTextEditors
-    const visibleMarkdownEditor = visibleEditors.find(editor =>
-      editor.document.languageId === 'markdown',
-    )
-    if (visibleMarkdownEditor) {
-      return visibleMarkdownEditor.document
-    }
-
-    // 3. 从保存的状态中恢复文档URI
+    // 1. 多个面板同时恢复时，各自优先恢复保存的文档
     if (_state?.documentUri) {
       try {
         const documentUri = vscode.Uri.parse(_state.documentUri)
@@ -78,6 +57,21 @@ export class MarkdownPreviewSerializer implements vscode.WebviewPanelSerializer
       }
     }
 
+    const isUnpreviewedMarkdown = (editor: vscode.TextEditor | undefined): editor is vscode.TextEditor =>
+      editor?.document.languageId === 'markdown' && !MarkdownPreviewPanel.getPanel(editor.document.uri)
+
+    // 2. 选择活动编辑器中的 Markdown 文件
+    const activeEditor = vscode.window.activeTextEditor
+    if (isUnpreviewedMarkdown(activeEditor)) {
+      return activeEditor.document
+    }
+
+    // 3. 查找可见编辑器中的第一个 Markdown 文件
+    const visibleMarkdownEditor = vscode.window.visibleTextEditors.find(isUnpreviewedMarkdown)
+    if (visibleMarkdownEditor) {
+      return visibleMarkdownEditor.document
+    }
+
     return undefined
   }
 
@@ -439,6 +439,7 @@ export class ScrollSyncManager {
 
         if (message.command === 'previewScrolledToLine') {
           this.logConsole(`[ScrollSyncManager] 处理预览滚动消息: 行号=${message.line}`)
+          this._panel.updateVisibleLine(message.line)
           this.syncToEditor(message.line)
         }
       }),
@@ -468,6 +469,7 @@ export class ScrollSyncManager {
     this.logConsole(`[ScrollSyncManager] 发送同步消息到预览: 行号=${line}, 发送结果=${success}`)
     this._lastPreviewSyncedLine = line
     this._lastPreviewSyncSentAt = Date.now()
+    this._panel.updateVisibleLine(line)
     this.logDebug('sync-to-preview-message-sent', {
       line,
       postMessageResult: success,
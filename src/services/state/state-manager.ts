@@ -1,4 +1,6 @@
 import type * as vscode from 'vscode'
+import type { NavigationHistoryState } from '../../types/navigation'
+
 /**
  * 预览状态接口
  * 定义了 Markdown 预览器需要保存的状态信息
@@ -10,8 +12,17 @@ export interface PreviewState {
   theme: string
   /** 状态保存的时间戳 */
   timestamp: number
+  /** 面板是否锁定到当前文档 */
+  locked?: boolean
+  /** 预览内的导航历史 */
+  history?: NavigationHistoryState
 }
 
+/**
+ * 随状态一起保存的面板附加信息
+ */
+export type PreviewStateExtras = Pick<PreviewState, 'locked' | 'history'>
+
 /**
  * 状态管理器
  * 负责管理 Markdown 预览器的状态持久化和恢复
@@ -64,26 +75,32 @@ export class StateManager {
 
   /**
    * 保存当前状态到 Webview
+   * 不传入文档时重新发送最近一次的状态，webview 重新加载期间丢失的消息由定期保存补上
    * @param document 可选的文档实例
    * @param theme 可选的主题名称
+   * @param extras 可选的面板附加信息
    */
-  saveState(document?: vscode.TextDocument, theme?: string): void {
-    if (!this._panel || !document) {
+  saveState(document?: vscode.TextDocument, theme?: string, extras: PreviewStateExtras = {}): void {
+    if (!this._panel) {
       return
     }
 
-    const state: PreviewState = {
-      documentUri: document.uri.toString(),
-      theme: theme || '',
-      timestamp: Date.now(),
+    if (document) {
+      this._currentState = {
+        documentUri: document.uri.toString(),
+        theme: theme || '',
+        timestamp: Date.now(),
+        ...extras,
+      }
+    }
+    if (!this._currentState) {
+      return
     }
-
-    this._currentState = state
 
     // 向 Webview 发送状态保存消息
-    this._panel.webview.postMessage({
+    void this._panel.webview.postMessage({
       command: 'saveState',
-      state,
+      state: this._currentState,
     })
   }
 
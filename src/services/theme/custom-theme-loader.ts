@@ -0,0 +1,155 @@
+import type { ThemeRegistration } from 'shiki'
+import type { CustomThemeSource, ThemeMetadata } from '../../types/theme'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { isDarkColor } from '../../utils/color-handler'
+import { Logger } from '../../utils/logger'
+
+/** 主题文件 include 链的最大深度，防止循环引用 */
+const MAX_INCLUDE_DEPTH = 10
+
+/**
+ * 读取自定义主题的元数据
+ * 扩展贡献的主题直接使用 package.json 中的声明，无需读取主题文件
+ */
+export async function readCustomThemeMetadata(source: CustomThemeSource): Promise<ThemeMetadata> {
+  if (source.name && source.uiTheme) {
+    return { name: source.name, displayName: source.name, type: getUiThemeType(source.uiTheme), origin: source.origin }
+  }
+
+  const theme = await readThemeFile(source.path)
+  const name = source.name || theme.name || path.basename(source.path, path.extname(source.path))
+  return {
+    name,
+    displayName: theme.displayName || name,
+    type: source.uiTheme ? getUiThemeType(source.uiTheme) : getThemeType(theme),
+    origin: source.origin,
+  }
+}
+
+/**
+ * 加载自定义主题文件，返回可以交给 Shiki 高亮器的主题
+ * 主题名称和类型以元数据为准，保证与主题列表一致
+ */
+export async function loadCustomTheme(source: CustomThemeSource, metadata: ThemeMetadata): Promise<ThemeRegistration> {
+  const theme = await readThemeFile(source.path)
+  return { ...theme, name: metadata.name, displayName: metadata.displayName, type: metadata.type }
+}
+
+/**
+ * 根据扩展声明的 uiTheme 判断主题亮暗，高对比度主题按底色归类
+ */
+function getUiThemeType(uiTheme: string): 'light' | 'dark' {
+  return uiTheme === 'vs' || uiTheme === 'hc-light' ? 'light' : 'dark'
+}
+
+/**
+ * 根据主题文件判断亮暗，未声明 type 时根据编辑器背景色推断
+ */
+function getThemeType(theme: ThemeRegistration): 'light' | 'dark' {
+  if (theme.type === 'light' || theme.type === 'dark') {
+    return theme.type
+  }
+  if (theme.type === 'hcLight') {
+    return 'light'
+  }
+
+  const background = theme.colors?.['editor.background']
+  if (background) {
+    try {
+      return isDarkColor(background) ? 'dark' : 'light'
+    }
+    catch {
+      Logger.logWarning(`无法识别主题背景色: ${background}`, 'CustomThemeLoader')
+    }
+  }
+  return 'dark'
+}
+
+/**
+ * 读取 VS Code 或 TextMate 主题 JSON，展开 include 引用的父主题
+ */
+async function readThemeFile(filePath: string, depth = 0): Promise<ThemeRegistration> {
+  if (depth > MAX_INCLUDE_DEPTH) {
+    throw new Error(`主题文件引用层级过深: ${filePath}`)
+  }
+
+  const theme = parseJsonc(await fs.readFile(filePath, 'utf8')) as ThemeRegistration & { include?: string }
+  if (!theme || typeof theme !== 'object') {
+    throw new Error(`主题文件格式无效: ${filePath}`)
+  }
+
+  // tokenColors 也可以指向 .tmTheme 文件，暂不支持 plist 格式
+  if (typeof theme.tokenColors === 'string') {
+    Logger.logWarning(`不支持的 tokenColors 引用: ${theme.tokenColors}（${filePath}）`, 'CustomThemeLoader')
+    theme.tokenColors = []
+  }
+
+  const { include, ...ownTheme } = theme
+  if (!include) {
+    return ownTheme
+  }
+
+  const parent = await readThemeFile(path.resolve(path.dirname(filePath), include), depth + 1)
+  return {
+    ...parent,
+    ...ownTheme,
+    colors: { ...parent.colors, ...ownTheme.colors },
+    tokenColors: [...(parent.tokenColors ?? parent.settings ?? []), ...(ownTheme.tokenColors ?? ownTheme.settings ?? [])],
+    settings: undefined,
+    semanticTokenColors: { ...parent.semanticTokenColors, ...ownTheme.semanticTokenColors },
+  }
+}
+
+/**
+ * 解析允许注释和尾随逗号的 JSON（VS Code 主题文件常用格式）
+ */
+function parseJsonc(text: string): unknown {
+  let result = ''
+  let index = 0
+  // 字符串外的逗号先暂存，下一个有效字符是 } 或 ] 时作为尾随逗号丢弃
+  let pendingComma = false
+
+  while (index < text.length) {
+    const char = text[index]
+
+    if (pendingComma && char !== ',' && !/\s/.test(char) && !(char === '/' && (text[index + 1] === '/' || text[index + 1] === '*'))) {
+      if (char !== '}' && char !== ']') {
+        result += ','
+      }
+      pendingComma = false
+    }
+
+    if (char === '"') {
+      // 原样保留字符串，跳过其中的转义字符
+      let end = index + 1
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1
+      }
+      result += text.slice(index, end + 1)
+      index = end + 1
+    }
+    else if (char === '/' && text[index + 1] === '/') {
+      const end = text.indexOf('\n', index)
+      index = end === -1 ? text.length : end
+    }
+    else if (char === '/' && text[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2)
+      index = end === -1 ? text.length : end + 2
+    }
+    else if (char === ',') {
+      // 连续的逗号保留下来，由 JSON.parse 报告格式错误
+      if (pendingComma) {
+        result += ','
+      }
+      pendingComma = true
+      index++
+    }
+    else {
+      result += char
+      index++
+    }
+  }
+
+  return JSON.parse(pendingComma ? `${result},` : result)
+}
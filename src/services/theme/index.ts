@@ -1,2 +1,5 @@
+export * from './custom-theme-loader'
+export * from './shiki-theme-service'
+export * from './theme-history'
 export * from './theme-picker'
 export * from './theme-service'
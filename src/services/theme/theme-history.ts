@@ -0,0 +1,68 @@
+import type * as vscode from 'vscode'
+
+/** 最近使用的主题最多保留的数量 */
+const MAX_RECENT_THEMES = 5
+
+const FAVORITES_KEY = 'favoriteThemes'
+const RECENT_KEY = 'recentThemes'
+
+/**
+ * 收藏和最近使用的主题，保存在 globalState 中，所有窗口共享
+ * 主题选择器和循环切换收藏主题的命令共用同一份收藏列表
+ */
+export class ThemeHistory {
+  private static _state: vscode.Memento | undefined
+
+  /**
+   * 扩展激活时传入 globalState，收藏列表随设置同步到其他设备
+   */
+  static initialize(globalState: vscode.Memento & { setKeysForSync: (keys: readonly string[]) => void }): void {
+    ThemeHistory._state = globalState
+    globalState.setKeysForSync([FAVORITES_KEY])
+  }
+
+  /**
+   * 收藏的主题，按收藏顺序排列
+   */
+  static get favorites(): string[] {
+    return ThemeHistory.read(FAVORITES_KEY)
+  }
+
+  /**
+   * 最近选择的主题，最新的在前
+   */
+  static get recent(): string[] {
+    return ThemeHistory.read(RECENT_KEY)
+  }
+
+  static isFavorite(theme: string): boolean {
+    return ThemeHistory.favorites.includes(theme)
+  }
+
+  /**
+   * 收藏或取消收藏主题
+   * @returns 操作后是否为收藏主题
+   */
+  static async toggleFavorite(theme: string): Promise<boolean> {
+    const favorites = ThemeHistory.favorites
+    const isFavorite = favorites.includes(theme)
+    await ThemeHistory._state?.update(
+      FAVORITES_KEY,
+      isFavorite ? favorites.filter(item => item !== theme) : [...favorites, theme],
+    )
+    return !isFavorite
+  }
+
+  /**
+   * 记录一次主题选择
+   */
+  static async addRecent(theme: string): Promise<void> {
+    const recent = [theme, ...ThemeHistory.recent.filter(item => item !== theme)].slice(0, MAX_RECENT_THEMES)
+    await ThemeHistory._state?.update(RECENT_KEY, recent)
+  }
+
+  private static read(key: string): string[] {
+    const themes = ThemeHistory._state?.get<string[]>(key, [])
+    return Array.isArray(themes) ? themes.filter(theme => typeof theme === 'string') : []
+  }
+}
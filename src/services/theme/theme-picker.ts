@@ -1,9 +1,11 @@
+import type { ThemeMetadata } from '../../types/theme'
 import type { MarkdownPreviewPanel } from '../renderer/markdown-preview'
 import type { ThemeService } from './theme-service'
 
 import { debounce } from 'throttle-debounce'
 import * as vscode from 'vscode'
 import { ErrorHandler } from '../../utils/error-handler'
+import { ThemeHistory } from './theme-history'
 
 /**
  * 主题快速选择项接口
@@ -37,6 +39,35 @@ export function findThemeIndex(themes: any[], themeName: string): number {
   return index
 };
 
+/**
+ * 收藏按钮，已收藏的主题显示为已固定的图钉
+ */
+function getFavoriteButton(theme: string): vscode.QuickInputButton {
+  return ThemeHistory.isFavorite(theme)
+    ? { iconPath: new vscode.ThemeIcon('pinned'), tooltip: '取消收藏' }
+    : { iconPath: new vscode.ThemeIcon('pin'), tooltip: '收藏主题' }
+}
+
+/**
+ * 自定义主题和已安装的 VS Code 主题在描述中标出来源
+ */
+function toThemeQuickPickItem(theme: ThemeMetadata): ThemeQuickPickItem {
+  return {
+    label: theme.displayName,
+    theme: theme.name,
+    description: theme.origin ? `${theme.name} · ${theme.origin}` : theme.name,
+    buttons: [getFavoriteButton(theme.name)],
+  }
+}
+
+/**
+ * 按保存的主题名称查找主题，已卸载或不可用的主题被忽略
+ */
+function findThemes(themes: ThemeMetadata[], names: string[]): ThemeMetadata[] {
+  const themesByName = new Map(themes.map(theme => [theme.name, theme]))
+  return names.flatMap(name => themesByName.get(name) ?? [])
+}
+
 async function getThemeOptions(themeService: ThemeService): Promise<{ options: ThemeQuickPickItem[], count: number }> {
   const groupedThemes = await ErrorHandler.safeExecute(
     () => themeService.getGroupedThemes(),
@@ -51,17 +82,8 @@ async function getThemeOptions(themeService: ThemeService): Promise<{ options: T
   }
 
   // 构建QuickPick项目，增强视觉效果和区分度
-  const lightThemeItems: ThemeQuickPickItem[] = groupedThemes.light.map((theme: any) => ({
-    label: theme.displayName,
-    theme: theme.name,
-    description: theme.name,
-  }))
-
-  const darkThemeItems: ThemeQuickPickItem[] = groupedThemes.dark.map((theme: any) => ({
-    label: theme.displayName,
-    theme: theme.name,
-    description: theme.name,
-  }))
+  const lightThemeItems: ThemeQuickPickItem[] = groupedThemes.light.map(toThemeQuickPickItem)
+  const darkThemeItems: ThemeQuickPickItem[] = groupedThemes.dark.map(toThemeQuickPickItem)
 
   // 创建带有更好视觉效果的分割线，包含统计信息
   const lightSeparator: ThemeQuickPickItem = {
@@ -78,7 +100,27 @@ async function getThemeOptions(themeService: ThemeService): Promise<{ options: T
     description: `共 ${groupedThemes.dark.length} 个主题`,
   }
 
+  // 收藏和最近使用的主题显示在最前面，最近使用中不重复显示已收藏的主题
+  const favoriteThemes = findThemes(groupedThemes.all, ThemeHistory.favorites)
+  const recentThemes = findThemes(groupedThemes.all, ThemeHistory.recent.filter(theme => !ThemeHistory.isFavorite(theme)))
+
+  const favoriteItems: ThemeQuickPickItem[] = favoriteThemes.length > 0
+    ? [
+        { label: '★ 收藏主题', theme: '', kind: vscode.QuickPickItemKind.Separator },
+        ...favoriteThemes.map(toThemeQuickPickItem),
+      ]
+    : []
+
+  const recentItems: ThemeQuickPickItem[] = recentThemes.length > 0
+    ? [
+        { label: '最近使用', theme: '', kind: vscode.QuickPickItemKind.Separator },
+        ...recentThemes.map(toThemeQuickPickItem),
+      ]
+    : []
+
   const options: ThemeQuickPickItem[] = [
+    ...favoriteItems,
+    ...recentItems,
     lightSeparator,
     ...lightThemeItems,
     darkSeparator,
@@ -91,30 +133,49 @@ async function getThemeOptions(themeService: ThemeService): Promise<{ options: T
   }
 }
 
+/**
+ * 根据当前主题模式提示回车后主题保存到哪里
+ */
+function getPickerPlaceholder(themeService: ThemeService, count: number): string {
+  if (themeService.matchVSCodeThemeEnabled) {
+    return `正在跟随 VS Code 主题，按回车将停止跟随并使用所选主题（共 ${count} 个主题）`
+  }
+  if (themeService.autoDetectColorSchemeEnabled) {
+    return `自动跟随已开启，按回车保存为当前亮/暗外观偏好主题（共 ${count} 个主题）`
+  }
+  return `使用方向键预览主题，按回车确认选择（共 ${count} 个主题）`
+}
+
 /**
  * 显示主题选择器
  */
 export async function showThemePicker(panel: MarkdownPreviewPanel, currentThemeValue: string): Promise<void> {
   const themeService = panel.themeService
-  const { options, count } = await getThemeOptions(themeService)
 
-  // 找到当前主题的索引
-  const currentIndex = findThemeIndex(options, currentThemeValue)
+  const loadOptions = async () => {
+    const { options, count } = await getThemeOptions(themeService)
 
-  if (currentIndex !== -1) {
-    options[currentIndex].picked = true
-    options[currentIndex].description = `${options[currentIndex].description} (当前)`
+    // 找到当前主题的索引
+    const currentIndex = findThemeIndex(options, currentThemeValue)
+
+    if (currentIndex !== -1) {
+      options[currentIndex].picked = true
+      options[currentIndex].description = `${options[currentIndex].description} (当前)`
+    }
+    return { options, count, currentIndex }
   }
 
+  const { options, count, currentIndex } = await loadOptions()
+
   // 创建 QuickPick 实例以获得更多控制
   const quickPick = vscode.window.createQuickPick<ThemeQuickPickItem>()
   quickPick.title = '选择 Markdown 预览主题'
-  quickPick.placeholder = themeService.autoDetectColorSchemeEnabled
-    ? `自动跟随已开启，按回车保存为当前亮/暗外观偏好主题（共 ${count} 个主题）`
-    : `使用方向键预览主题，按回车确认选择（共 ${count} 个主题）`
+  quickPick.placeholder = getPickerPlaceholder(themeService, count)
   quickPick.items = options
   quickPick.canSelectMany = false
   quickPick.matchOnDescription = true
+  // 收藏主题后重建列表时保持滚动位置
+  quickPick.keepScrollPosition = true
 
   // 设置初始选中项
   if (currentIndex !== -1) {
@@ -128,6 +189,8 @@ export async function showThemePicker(panel: MarkdownPreviewPanel, currentThemeV
   const originalTheme = currentThemeValue
   let isDisposed = false // 是否已销毁
   let previewRequestId = 0
+  // 最近一次请求预览的主题
+  let previewTheme = currentThemeValue
 
   const isPreviewRequestStale = (requestId: number) => {
     return isDisposed || accepted || requestId !== previewRequestId
@@ -156,6 +219,11 @@ export async function showThemePicker(panel: MarkdownPreviewPanel, currentThemeV
 
   // 使用 throttle-debounce 库创建防抖函数
   const debouncedPreviewUpdate = debounce(100, async (selectedTheme: string) => {
+    // 与正在预览的主题相同时无需重新渲染，例如收藏主题后重建列表
+    if (selectedTheme === previewTheme) {
+      return
+    }
+    previewTheme = selectedTheme
     const requestId = ++previewRequestId
 
     // 如果已经销毁，不执行任何操作
@@ -222,6 +290,28 @@ export async function showThemePicker(panel: MarkdownPreviewPanel, currentThemeV
     }
   })
 
+  // 点击图钉收藏或取消收藏，重建列表并保持当前活动项
+  quickPick.onDidTriggerItemButton(async ({ item }) => {
+    await ErrorHandler.safeExecute(
+      async () => {
+        const activeTheme = quickPick.activeItems[0]?.theme
+        await ThemeHistory.toggleFavorite(item.theme)
+
+        const { options } = await loadOptions()
+        if (isDisposed) {
+          return
+        }
+        quickPick.items = options
+        const activeItem = options.find(option => option.theme === activeTheme)
+        if (activeItem) {
+          quickPick.activeItems = [activeItem]
+        }
+      },
+      '主题收藏失败',
+      'ThemePicker',
+    )
+  })
+
   // 监听接受事件（回车或点击）
   quickPick.onDidAccept(async () => {
     const selectedItem = quickPick.selectedItems[0] || quickPick.activeItems[0]
@@ -229,7 +319,9 @@ export async function showThemePicker(panel: MarkdownPreviewPanel, currentThemeV
       await ErrorHandler.safeExecute(
         async () => {
           // 根据当前模式保存主题：手动模式写 currentTheme，自动模式写当前亮/暗偏好主题
-          await themeService.updateSelectedTheme(selectedItem.theme, vscode.ConfigurationTarget.Global)
+          if (await themeService.updateSelectedTheme(selectedItem.theme, vscode.ConfigurationTarget.Global)) {
+            await ThemeHistory.addRecent(selectedItem.theme)
+          }
         },
         '主题切换失败',
         'ThemePicker',
@@ -267,3 +359,27 @@ export async function showThemePicker(panel: MarkdownPreviewPanel, currentThemeV
 
   quickPick.show()
 }
+
+/**
+ * 依次切换到下一个收藏的主题，不打开主题选择器
+ */
+export async function cycleFavoriteThemes(panel: MarkdownPreviewPanel): Promise<void> {
+  const themeService = panel.themeService
+  const favorites: string[] = []
+  for (const theme of ThemeHistory.favorites) {
+    if (await themeService.isValidTheme(theme)) {
+      favorites.push(theme)
+    }
+  }
+
+  if (favorites.length === 0) {
+    ErrorHandler.showInfo('还没有收藏的主题，可以在主题选择器中点击主题右侧的图钉收藏')
+    return
+  }
+
+  // 当前主题不在收藏中时从第一个收藏主题开始
+  const nextTheme = favorites[(favorites.indexOf(themeService.currentTheme) + 1) % favorites.length]
+  if (await themeService.updateSelectedTheme(nextTheme, vscode.ConfigurationTarget.Global)) {
+    vscode.window.setStatusBarMessage(`Markdown 预览主题: ${nextTheme}`, 3000)
+  }
+}
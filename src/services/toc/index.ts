@@ -0,0 +1,3 @@
+export * from './markdown-toc'
+export * from './toc-config'
+export * from './toc-service'
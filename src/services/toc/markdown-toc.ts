@@ -0,0 +1,47 @@
+import type { RenderedHeading } from '../renderer/markdown-renderer'
+
+/**
+ * 目录中包含的标题层级
+ */
+export const TOC_LEVELS = [1, 2, 3]
+
+/** 源码目录的起始标记，与 markdown-toc 等工具保持一致 */
+export const TOC_START_MARKER = '<!-- toc -->'
+
+/** 源码目录的结束标记 */
+export const TOC_END_MARKER = '<!-- tocstop -->'
+
+/**
+ * 生成 Markdown 列表形式的目录
+ * @param headings 渲染器提取的标题
+ * @param levels 需要包含的标题层级
+ */
+export function generateMarkdownToc(headings: RenderedHeading[], levels: number[] = TOC_LEVELS): string {
+  const included = headings.filter(heading => levels.includes(heading.level) && heading.id)
+  if (included.length === 0) {
+    return ''
+  }
+
+  const minLevel = Math.min(...included.map(heading => heading.level))
+  return included
+    .map((heading) => {
+      const indent = '  '.repeat(heading.level - minLevel)
+      const text = heading.text.replace(/[[\]]/g, '\\$&')
+      return `${indent}- [${text}](#${heading.id})`
+    })
+    .join('\n')
+}
+
+/**
+ * 查找源码中已有目录的行范围（包含起止标记），不存在时返回 undefined
+ * @param lines 按行拆分的源码
+ */
+export function findTocRange(lines: string[]): { start: number, end: number } | undefined {
+  const start = lines.findIndex(line => line.trim() === TOC_START_MARKER)
+  if (start < 0) {
+    return undefined
+  }
+
+  const end = lines.findIndex((line, index) => index > start && line.trim() === TOC_END_MARKER)
+  return end < 0 ? undefined : { start, end }
+}
@@ -0,0 +1,80 @@
+import type { FrontMatterIssue } from '../../types/front-matter'
+import type { TocConfig } from '../../types/toc'
+
+/**
+ * 浮动目录的默认配置
+ */
+export const DEFAULT_TOC_CONFIG: TocConfig = {
+  expandTocByDefault: false,
+  levels: [1, 2, 3],
+  numbering: false,
+  position: 'right',
+  maxWidth: '240px',
+}
+
+// 与 documentWidth 设置相同的 CSS 宽度格式，避免把任意内容写入样式
+export const CSS_WIDTH_PATTERN = /^\d+(?:\.\d+)?(?:px|em|rem|%|vw|ch|ex|cm|mm|in|pt|pc)$/
+
+/**
+ * 用设置或 front matter 中的 toc 字段覆盖目录配置，无效的值被忽略
+ * @param base 基础配置
+ * @param overrides 形如 { levels, numbering, position, maxWidth, expand } 的对象
+ * @param issues 收集填写了但无效的字段，用于报告 front matter 错误
+ */
+export function resolveTocConfig(base: TocConfig, overrides: unknown, issues: FrontMatterIssue[] = []): TocConfig {
+  if (overrides === undefined || overrides === null) {
+    return base
+  }
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    issues.push({ key: 'toc', message: 'toc 应为对象，如 toc: { levels: [1, 2, 3] }' })
+    return base
+  }
+
+  const { levels, numbering, position, maxWidth, expand } = overrides as Record<string, unknown>
+  const config = { ...base }
+
+  if (Array.isArray(levels)) {
+    const validLevels = levels
+      .map(level => Number(level))
+      .filter(level => Number.isInteger(level) && level >= 1 && level <= 6)
+    if (validLevels.length) {
+      config.levels = [...new Set(validLevels)].sort((a, b) => a - b)
+    }
+    if (validLevels.length !== levels.length) {
+      issues.push({ key: 'toc.levels', message: 'toc.levels 只能包含 1 到 6 的标题级别' })
+    }
+  }
+  else if (levels !== undefined) {
+    issues.push({ key: 'toc.levels', message: 'toc.levels 应为标题级别列表，如 [1, 2, 3]' })
+  }
+
+  if (typeof numbering === 'boolean') {
+    config.numbering = numbering
+  }
+  else if (numbering !== undefined) {
+    issues.push({ key: 'toc.numbering', message: 'toc.numbering 应为 true 或 false' })
+  }
+
+  if (position === 'left' || position === 'right') {
+    config.position = position
+  }
+  else if (position !== undefined) {
+    issues.push({ key: 'toc.position', message: 'toc.position 应为 left 或 right' })
+  }
+
+  if (typeof maxWidth === 'string' && CSS_WIDTH_PATTERN.test(maxWidth.trim())) {
+    config.maxWidth = maxWidth.trim()
+  }
+  else if (maxWidth !== undefined) {
+    issues.push({ key: 'toc.maxWidth', message: `toc.maxWidth 无效: ${String(maxWidth)}，应为 CSS 宽度值，如 240px、20rem` })
+  }
+
+  if (typeof expand === 'boolean') {
+    config.expandTocByDefault = expand
+  }
+  else if (expand !== undefined) {
+    issues.push({ key: 'toc.expand', message: 'toc.expand 应为 true 或 false' })
+  }
+
+  return config
+}
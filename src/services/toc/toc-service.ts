@@ -0,0 +1,52 @@
+import type { RenderedHeading } from '../renderer/markdown-renderer'
+import * as vscode from 'vscode'
+import { MarkdownRenderer } from '../renderer/markdown-renderer'
+import { ThemeService } from '../theme/theme-service'
+import { findTocRange, generateMarkdownToc, TOC_END_MARKER, TOC_START_MARKER } from './markdown-toc'
+
+/**
+ * 在 Markdown 源码中插入或更新目录，使目录在 GitHub 等不支持 [[toc]] 的环境中同样可见
+ */
+export class TocService {
+  /**
+   * 已有目录标记时替换标记之间的内容，否则在光标处插入目录
+   * @returns 是否写入了目录
+   */
+  async insertOrUpdate(editor: vscode.TextEditor): Promise<boolean> {
+    const document = editor.document
+    const content = document.getText()
+    const toc = generateMarkdownToc(this.extractHeadings(content))
+    if (!toc) {
+      return false
+    }
+
+    const block = `${TOC_START_MARKER}\n\n${toc}\n\n${TOC_END_MARKER}`
+    const range = findTocRange(content.split(/\r?\n/))
+
+    return editor.edit((editBuilder) => {
+      if (range) {
+        editBuilder.replace(new vscode.Range(range.start, 0, range.end, document.lineAt(range.end).text.length), block)
+      }
+      else {
+        editBuilder.insert(editor.selection.active, block)
+      }
+    })
+  }
+
+  /**
+   * 使用预览的渲染器提取标题，目录中的锚点与预览中的标题 ID 一致
+   */
+  private extractHeadings(content: string): RenderedHeading[] {
+    const themeService = new ThemeService()
+    const renderer = new MarkdownRenderer(themeService)
+    try {
+      // 只用于解析 token，不需要初始化语法高亮器
+      renderer.initialize()
+      return renderer.extractHeadings(content)
+    }
+    finally {
+      renderer.dispose()
+      themeService.dispose()
+    }
+  }
+}
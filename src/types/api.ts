@@ -0,0 +1,35 @@
+import type MarkdownIt from 'markdown-it'
+import type * as vscode from 'vscode'
+
+/**
+ * 扩展 markdown-it 实例的函数，与 VS Code 内置预览的 extendMarkdownIt 约定一致
+ */
+export type MarkdownItExtender = (md: MarkdownIt) => MarkdownIt | void
+
+/**
+ * 渲染后处理钩子的上下文
+ */
+export interface PostRenderContext {
+  document?: vscode.TextDocument // 当前渲染的文档
+}
+
+/**
+ * 渲染后处理钩子，返回处理后的 HTML
+ */
+export type PostRenderHook = (html: string, context: PostRenderContext) => string | Promise<string>
+
+/**
+ * activate 返回给其他扩展使用的公共 API
+ */
+export interface ShikiMarkdownPreviewApi {
+  /** 注册 markdown-it 插件 */
+  registerMarkdownItPlugin: (plugin: MarkdownIt.PluginWithParams, ...params: any[]) => vscode.Disposable
+  /** 注册对 markdown-it 实例的扩展函数 */
+  extendMarkdownIt: (extender: MarkdownItExtender) => vscode.Disposable
+  /** 注册预览页面额外加载的脚本 */
+  registerWebviewScript: (scriptUri: vscode.Uri) => vscode.Disposable
+  /** 注册预览页面额外加载的样式 */
+  registerWebviewStyle: (styleUri: vscode.Uri) => vscode.Disposable
+  /** 注册渲染后处理钩子 */
+  registerPostRenderHook: (hook: PostRenderHook) => vscode.Disposable
+}
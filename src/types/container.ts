@@ -0,0 +1,15 @@
+/**
+ * 自定义容器定义，来自 shikiMarkdownPreview.customContainers 配置或 front matter 的 containers 字段
+ */
+export interface ContainerDefinition {
+  /** 容器名称，即 `::: name` 中的 name */
+  name: string
+  /** 未在容器标记后填写标题时使用的默认标题 */
+  title?: string
+  /** 附加到容器上的 CSS 类名，默认为容器名称 */
+  className?: string
+  /** 内置图标名称（info、warning、danger、tip、important）、任意文本或 emoji，none 表示不显示图标 */
+  icon?: string
+  /** 主题调色板名称（info、warning、danger、tip、important）或任意 CSS 颜色 */
+  color?: string
+}
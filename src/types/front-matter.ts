@@ -0,0 +1,23 @@
+/**
+ * 单个文档在 front matter 中覆盖的预览设置，未填写或无效的字段使用设置中的值
+ * 目录（toc）和自定义容器（containers）的覆盖分别由各自的配置解析处理
+ */
+export interface DocumentOverrides {
+  /** 预览主题 */
+  theme?: string
+  /** 文档宽度，CSS 宽度值 */
+  documentWidth?: string
+  /** 预览字体 */
+  fontFamily?: string
+  /** 强制开启或关闭数学公式渲染，未填写时根据内容自动检测 */
+  math?: boolean
+}
+
+/**
+ * front matter 中无效的字段
+ */
+export interface FrontMatterIssue {
+  /** 字段路径，如 theme、toc.levels */
+  key: string
+  message: string
+}
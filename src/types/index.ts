@@ -1 +1,6 @@
+export * from './api'
+export * from './container'
+export * from './front-matter'
+export * from './navigation'
 export * from './theme'
+export * from './toc'
@@ -3,6 +3,7 @@ declare module 'markdown-it-ins'
 declare module 'markdown-it-mark'
 declare module 'markdown-it-sub'
 declare module 'markdown-it-sup'
+declare module 'markdown-it-table-of-contents'
 declare module 'markdown-it-task-checkbox' {
   import type MarkdownIt from 'markdown-it'
 
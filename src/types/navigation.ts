@@ -0,0 +1,19 @@
+/**
+ * 预览导航历史中的一个位置
+ */
+export interface NavigationEntry {
+  /** 文档 URI */
+  documentUri: string
+  /** 预览顶部对应的源文件行号 */
+  line: number
+}
+
+/**
+ * 可序列化的导航历史，随预览状态一起保存
+ */
+export interface NavigationHistoryState {
+  /** 按访问顺序排列的位置 */
+  entries: NavigationEntry[]
+  /** 当前位置在 entries 中的下标 */
+  index: number
+}
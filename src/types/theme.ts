@@ -5,6 +5,17 @@ export interface ThemeMetadata {
   name: string // 主题名称
   displayName: string // 显示名称
   type: 'light' | 'dark' // 主题类型：亮色或暗色
+  origin?: string // 主题来源，自定义主题显示文件名或扩展名称，内置主题为空
+}
+
+/**
+ * 自定义主题来源：设置中指定的主题 JSON 文件，或已安装扩展贡献的颜色主题
+ */
+export interface CustomThemeSource {
+  path: string // 主题 JSON 文件的绝对路径
+  name?: string // 主题名称，未指定时使用主题文件中的 name 或文件名
+  uiTheme?: string // 扩展贡献主题时声明的基础主题（vs、vs-dark、hc-black、hc-light）
+  origin?: string // 主题来源说明，显示在主题选择器中
 }
 
 /**
@@ -0,0 +1,15 @@
+/**
+ * 预览中浮动目录（NotionToc）的配置，由设置和 front matter 中的 toc 字段合并而来
+ */
+export interface TocConfig {
+  /** 是否默认展开目录详情 */
+  expandTocByDefault: boolean
+  /** 目录包含的标题级别（1-6） */
+  levels: number[]
+  /** 是否在目录和标题前显示章节编号（1.2.3） */
+  numbering: boolean
+  /** 目录显示在预览的哪一侧 */
+  position: 'left' | 'right'
+  /** 目录详情的最大宽度，CSS 宽度值 */
+  maxWidth: string
+}
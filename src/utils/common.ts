@@ -8,3 +8,29 @@ export function escapeHtml(text: string): string {
   }
   return text.replace(/[&<>"']/g, m => map[m])
 }
+
+export function decodeHtmlEntities(text: string): string {
+  const map: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#039;': '\'',
+    '&#39;': '\'',
+    '&#x27;': '\'',
+  }
+  return text.replace(/&(?:amp|lt|gt|quot|#0?39|#x27);/g, m => map[m])
+}
+
+/**
+ * 将相对路径解析为基于某个 URI 的绝对地址
+ * @returns 基础 URI 无法作为相对路径的基准时返回 null
+ */
+export function resolveRelativeUri(baseUri: string, relativePath: string): string | null {
+  try {
+    return new URL(relativePath, baseUri).toString()
+  }
+  catch {
+    return null
+  }
+}
@@ -1,43 +1,11 @@
 import * as vscode from 'vscode'
+import { Logger } from './logger'
 
 /**
  * 统一错误处理工具类
- * 提供标准化的错误处理、日志记录和用户通知功能
+ * 在日志记录的基础上提供标准化的错误处理和用户通知功能
  */
-export class ErrorHandler {
-  private static readonly LOG_PREFIX = '[ShikiMarkdownPreview]'
-
-  /**
-   * 记录错误日志
-   * @param message 错误消息
-   * @param error 错误对象
-   * @param context 上下文信息
-   */
-  static logError(message: string, error?: any, context?: string): void {
-    const contextInfo = context ? ` [${context}]` : ''
-    console.error(`${this.LOG_PREFIX}${contextInfo} ${message}`, error || '')
-  }
-
-  /**
-   * 记录警告日志
-   * @param message 警告消息
-   * @param context 上下文信息
-   */
-  static logWarning(message: string, context?: string): void {
-    const contextInfo = context ? ` [${context}]` : ''
-    console.warn(`${this.LOG_PREFIX}${contextInfo} ${message}`)
-  }
-
-  /**
-   * 记录信息日志
-   * @param message 信息消息
-   * @param context 上下文信息
-   */
-  static logInfo(message: string, context?: string): void {
-    const contextInfo = context ? ` [${context}]` : ''
-    console.warn(`${this.LOG_PREFIX}${contextInfo} ${message}`)
-  }
-
+export class ErrorHandler extends Logger {
   /**
    * 显示错误消息给用户
    * @param message 错误消息
@@ -69,50 +37,6 @@ export class ErrorHandler {
     vscode.window.showWarningMessage(message)
   }
 
-  /**
-   * 安全执行异步操作，自动处理错误
-   * @param operation 要执行的操作
-   * @param errorMessage 错误消息
-   * @param context 上下文信息
-   * @returns 操作结果或 null（如果失败）
-   */
-  static async safeExecute<T>(
-    operation: () => Promise<T>,
-    errorMessage: string,
-    context?: string,
-  ): Promise<T | null> {
-    try {
-      return await operation()
-    }
-    catch (error) {
-      this.logError(errorMessage, error, context)
-      return null
-    }
-  }
-
-  /**
-   * 安全执行同步操作，自动处理错误
-   * @param operation 要执行的操作
-   * @param errorMessage 错误消息
-   * @param context 上下文信息
-   * @param defaultValue 失败时的默认值
-   * @returns 操作结果或默认值
-   */
-  static safeExecuteSync<T>(
-    operation: () => T,
-    errorMessage: string,
-    context?: string,
-    defaultValue?: T,
-  ): T | undefined {
-    try {
-      return operation()
-    }
-    catch (error) {
-      this.logError(errorMessage, error, context)
-      return defaultValue
-    }
-  }
-
   /**
    * 处理主题相关错误
    * @param error 错误对象
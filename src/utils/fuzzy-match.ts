@@ -0,0 +1,49 @@
+/**
+ * 计算两个字符串的编辑距离（Levenshtein distance）
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0
+  }
+  if (!a.length || !b.length) {
+    return a.length || b.length
+  }
+
+  // 只保留上一行，按行滚动计算
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * 从候选项中找出与目标最接近的若干项，忽略大小写
+ * 距离超过目标长度一半（至少为 2）的候选项视为不相关
+ * @param target 目标字符串
+ * @param candidates 候选项
+ * @param limit 最多返回的数量
+ */
+export function findClosestMatches(target: string, candidates: Iterable<string>, limit: number = 3): string[] {
+  const normalizedTarget = target.toLowerCase()
+  const maxDistance = Math.max(2, Math.floor(normalizedTarget.length / 2))
+
+  const matches: { candidate: string, distance: number }[] = []
+  for (const candidate of new Set(candidates)) {
+    const distance = levenshteinDistance(normalizedTarget, candidate.toLowerCase())
+    if (distance <= maxDistance) {
+      matches.push({ candidate, distance })
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(match => match.candidate)
+}
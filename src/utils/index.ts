@@ -3,7 +3,11 @@ export * from './color-handler'
 export * from './common'
 export * from './document-validator'
 export * from './error-handler'
+export * from './fuzzy-match'
 export * from './language-detector'
+export * from './logger'
+export * from './lru-cache'
 export * from './math-detector'
 export * from './path-resolver'
+export * from './slugger'
 export * from './theme-enhance'
@@ -0,0 +1,82 @@
+/**
+ * 日志工具类
+ * 不依赖 VS Code API，扩展进程、渲染线程和命令行中都可以使用
+ */
+export class Logger {
+  protected static readonly LOG_PREFIX = '[ShikiMarkdownPreview]'
+
+  /**
+   * 记录错误日志
+   * @param message 错误消息
+   * @param error 错误对象
+   * @param context 上下文信息
+   */
+  static logError(message: string, error?: any, context?: string): void {
+    const contextInfo = context ? ` [${context}]` : ''
+    console.error(`${this.LOG_PREFIX}${contextInfo} ${message}`, error || '')
+  }
+
+  /**
+   * 记录警告日志
+   * @param message 警告消息
+   * @param context 上下文信息
+   */
+  static logWarning(message: string, context?: string): void {
+    const contextInfo = context ? ` [${context}]` : ''
+    console.warn(`${this.LOG_PREFIX}${contextInfo} ${message}`)
+  }
+
+  /**
+   * 记录信息日志
+   * @param message 信息消息
+   * @param context 上下文信息
+   */
+  static logInfo(message: string, context?: string): void {
+    const contextInfo = context ? ` [${context}]` : ''
+    console.warn(`${this.LOG_PREFIX}${contextInfo} ${message}`)
+  }
+
+  /**
+   * 安全执行异步操作，自动处理错误
+   * @param operation 要执行的操作
+   * @param errorMessage 错误消息
+   * @param context 上下文信息
+   * @returns 操作结果或 null（如果失败）
+   */
+  static async safeExecute<T>(
+    operation: () => Promise<T>,
+    errorMessage: string,
+    context?: string,
+  ): Promise<T | null> {
+    try {
+      return await operation()
+    }
+    catch (error) {
+      this.logError(errorMessage, error, context)
+      return null
+    }
+  }
+
+  /**
+   * 安全执行同步操作，自动处理错误
+   * @param operation 要执行的操作
+   * @param errorMessage 错误消息
+   * @param context 上下文信息
+   * @param defaultValue 失败时的默认值
+   * @returns 操作结果或默认值
+   */
+  static safeExecuteSync<T>(
+    operation: () => T,
+    errorMessage: string,
+    context?: string,
+    defaultValue?: T,
+  ): T | undefined {
+    try {
+      return operation()
+    }
+    catch (error) {
+      this.logError(errorMessage, error, context)
+      return defaultValue
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * 缓存命中统计
+ */
+export interface CacheStats {
+  hits: number
+  misses: number
+  /** 当前缓存的条目数 */
+  size: number
+}
+
+/**
+ * 字符串值的 LRU 缓存
+ * 同时限制条目数和值的总长度，超出时淘汰最久未使用的条目
+ */
+export class LruCache<K> {
+  private readonly _entries = new Map<K, string>()
+  private _totalLength = 0
+  private _hits = 0
+  private _misses = 0
+
+  /**
+   * @param maxEntries 最多缓存的条目数
+   * @param maxTotalLength 所有值的最大总长度（字符数）
+   */
+  constructor(private readonly maxEntries: number, private readonly maxTotalLength: number) {}
+
+  get(key: K): string | undefined {
+    const value = this._entries.get(key)
+    if (value === undefined) {
+      this._misses++
+      return undefined
+    }
+
+    // 重新插入，使其成为最近使用的条目
+    this._entries.delete(key)
+    this._entries.set(key, value)
+    this._hits++
+    return value
+  }
+
+  set(key: K, value: string): void {
+    // 单个值超过上限时不缓存
+    if (value.length > this.maxTotalLength) {
+      return
+    }
+
+    this.delete(key)
+    this._entries.set(key, value)
+    this._totalLength += value.length
+
+    // Map 按插入顺序遍历，最前面的是最久未使用的条目
+    for (const oldestKey of this._entries.keys()) {
+      if (this._entries.size <= this.maxEntries && this._totalLength <= this.maxTotalLength) {
+        break
+      }
+      this.delete(oldestKey)
+    }
+  }
+
+  delete(key: K): void {
+    const value = this._entries.get(key)
+    if (value !== undefined) {
+      this._totalLength -= value.length
+      this._entries.delete(key)
+    }
+  }
+
+  /**
+   * 清空缓存条目，保留命中统计
+   */
+  clear(): void {
+    this._entries.clear()
+    this._totalLength = 0
+  }
+
+  get stats(): CacheStats {
+    return { hits: this._hits, misses: this._misses, size: this._entries.size }
+  }
+}
@@ -0,0 +1,95 @@
+import type { Token } from 'markdown-it'
+
+// 与 github-slugger 一致：移除字母、组合符号、数字、连接符标点、空格和连字符以外的字符
+const DISALLOWED_CHARACTERS = /[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu
+
+/**
+ * 按 GitHub 的规则将标题文本转换为锚点 ID，不处理重复
+ * @param titleText 标题的纯文本内容
+ */
+export function slugify(titleText: string): string {
+  return titleText
+    .toLowerCase()
+    .replace(DISALLOWED_CHARACTERS, '')
+    .replace(/ /g, '-')
+}
+
+/**
+ * GitHub 兼容的标题锚点生成器
+ * 同一文档中重复的标题依次追加 -1、-2 后缀，每次渲染需要使用新的实例
+ */
+export class GithubSlugger {
+  private readonly _occurrences = new Map<string, number>()
+
+  /**
+   * 生成唯一的锚点 ID
+   * @param titleText 标题的纯文本内容
+   */
+  slug(titleText: string): string {
+    const originalSlug = slugify(titleText)
+    let result = originalSlug
+
+    while (this._occurrences.has(result)) {
+      const count = this._occurrences.get(originalSlug)! + 1
+      this._occurrences.set(originalSlug, count)
+      result = `${originalSlug}-${count}`
+    }
+
+    this._occurrences.set(result, 0)
+    return result
+  }
+
+  /**
+   * 清空已生成的记录
+   */
+  reset(): void {
+    this._occurrences.clear()
+  }
+}
+
+/**
+ * 提取标题 inline token 的纯文本，与 GitHub 计算锚点时使用的文本一致
+ * 需要在 typographer 等改写文本的规则之前调用
+ * @param inline 标题内容对应的 inline token
+ */
+export function getHeadingText(inline: Token): string {
+  if (!inline.children) {
+    return inline.content
+  }
+
+  return inline.children
+    .map((child) => {
+      if (child.type === 'text' || child.type === 'code_inline') {
+        return child.content
+      }
+      if (child.type === 'image') {
+        return child.children ? getHeadingText(child) : child.content
+      }
+      if (child.type === 'softbreak' || child.type === 'hardbreak') {
+        return ' '
+      }
+      return ''
+    })
+    .join('')
+}
+
+/**
+ * 根据链接中的锚点查找对应标题
+ * 锚点先按渲染器生成的 ID 精确匹配，再按标题文本重新计算 ID 匹配，兼容直接书写标题文本的链接
+ * @param headings 目标文档中的标题
+ * @param fragment 链接 # 后面的部分
+ */
+export function findHeadingByFragment<T extends { id: string }>(headings: T[], fragment: string): T | undefined {
+  let decoded = fragment
+  try {
+    decoded = decodeURIComponent(fragment)
+  }
+  catch {
+    // 非法的编码按原样匹配
+  }
+
+  const normalized = decoded.toLowerCase()
+  return headings.find(heading => heading.id === decoded)
+    ?? headings.find(heading => heading.id.toLowerCase() === normalized)
+    ?? headings.find(heading => heading.id === slugify(decoded))
+}
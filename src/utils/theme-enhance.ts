@@ -35,6 +35,51 @@ const LIGHT_FALLBACKS = {
   blockQuoteBackgrounds: ALPHA.LIGHT.map(alpha => `rgba(74, 85, 104, ${alpha})`),
   blockQuoteBorder: 'rgba(0, 0, 0, 0.3)',
 }
+
+/**
+ * 自定义容器调色板
+ * 每种颜色取自主题中语义相近的颜色，主题未定义时使用回退颜色
+ */
+export const CONTAINER_COLORS = {
+  info: { source: 'editorInfo.foreground', fallback: '#aaabb0' },
+  tip: { source: 'terminal.ansiGreen', fallback: '#3dd68c' },
+  warning: { source: 'editorWarning.foreground', fallback: '#ffc107' },
+  danger: { source: 'editorError.foreground', fallback: '#dc3545' },
+  important: { source: 'terminal.ansiMagenta', fallback: '#a371f7' },
+} as const
+
+export type ContainerColorName = keyof typeof CONTAINER_COLORS
+
+/** 容器背景色相对于容器主色的透明度 */
+const CONTAINER_BACKGROUND_ALPHA = 0.16
+
+/**
+ * 生成自定义容器的主色和背景色
+ *
+ * @param themeColors - 主题颜色配置对象
+ * @returns 以 markdown.container.* 为键的颜色映射
+ */
+export function generateContainerColors(themeColors: Record<string, string>): Record<string, string> {
+  const colors: Record<string, string> = {}
+
+  for (const [name, { source, fallback }] of Object.entries(CONTAINER_COLORS)) {
+    let color = chroma(fallback)
+    try {
+      if (themeColors[source]) {
+        color = chroma(themeColors[source]).alpha(1)
+      }
+    }
+    catch {
+      // 主题颜色无法解析时保留回退颜色
+    }
+
+    colors[`markdown.container.${name}.color`] = color.css()
+    colors[`markdown.container.${name}.background`] = color.alpha(CONTAINER_BACKGROUND_ALPHA).css()
+  }
+
+  return colors
+}
+
 /**
  * 生成引用块边框颜色
  * 根据背景色自动计算合适的边框颜色，确保足够的对比度
@@ -340,6 +385,7 @@ export function generateEnhancedColors(
     enhanced['markdown.blockQuote.background'] = fallbackBackground
     enhanced['markdown.blockQuote.border'] = isDark ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.3)'
     enhanced['markdown.table.border'] = isDark ? 'rgba(255, 255, 255, 0.15)' : 'rgba(0, 0, 0, 0.15)'
+    Object.assign(enhanced, generateContainerColors(themeColors))
     return toCssVarsStr(enhanced)
   }
 
@@ -391,6 +437,9 @@ export function generateEnhancedColors(
         3.0,
       )
     }
+
+    // 自定义容器颜色
+    Object.assign(enhanced, generateContainerColors(themeColors))
   }
   catch (error) {
     console.error('Error generating enhanced colors:', error)
@@ -0,0 +1,138 @@
+// 增量更新预览内容：按顶层块比较新旧 HTML，只替换发生变化的块
+
+// 上次渲染时每个顶层节点的原始 HTML（去掉行号），与内容容器的子节点一一对应
+// 其他模块会改写块内的 DOM（代码块外壳、Mermaid 图表等），因此比较时使用原始 HTML 而不是当前 DOM
+let renderedBlockKeys = null
+
+const LINE_ATTRIBUTE_PATTERN = /\sdata-line="\d+"/g
+
+function getBlockKey(node) {
+  if (node.nodeType === Node.ELEMENT_NODE) {
+    return `${node.nodeType}:${node.outerHTML.replace(LINE_ATTRIBUTE_PATTERN, '')}`
+  }
+  return `${node.nodeType}:${node.textContent}`
+}
+
+function getLineElements(node) {
+  const elements = Array.from(node.querySelectorAll('[data-line]'))
+  return node.hasAttribute('data-line') ? [node, ...elements] : elements
+}
+
+/**
+ * 记录内容容器当前的顶层块，页面首次加载时在其他模块改写 DOM 之前调用
+ */
+function recordContentBlocks(container) {
+  renderedBlockKeys = Array.from(container.childNodes, getBlockKey)
+}
+
+/**
+ * 内容未变但位置移动的块只更新行号，带行号的元素数量对不上时返回 false
+ */
+function syncLineNumbers(currentNode, nextNode) {
+  if (nextNode.nodeType !== Node.ELEMENT_NODE) {
+    return true
+  }
+
+  const currentElements = getLineElements(currentNode)
+  const nextElements = getLineElements(nextNode)
+  if (currentElements.length !== nextElements.length) {
+    return false
+  }
+
+  currentElements.forEach((element, index) => {
+    const line = nextElements[index].getAttribute('data-line')
+    if (element.getAttribute('data-line') !== line) {
+      element.setAttribute('data-line', line)
+    }
+  })
+  return true
+}
+
+/**
+ * 一一替换的块保留 <details> 的展开状态
+ */
+function preserveDetailsState(currentNodes, nextNodes) {
+  if (currentNodes.length !== nextNodes.length) {
+    return
+  }
+
+  currentNodes.forEach((currentNode, index) => {
+    const nextNode = nextNodes[index]
+    if (currentNode.nodeType !== Node.ELEMENT_NODE || nextNode.nodeType !== Node.ELEMENT_NODE) {
+      return
+    }
+
+    const currentDetails = currentNode.matches('details') ? [currentNode] : Array.from(currentNode.querySelectorAll('details'))
+    const nextDetails = nextNode.matches('details') ? [nextNode] : Array.from(nextNode.querySelectorAll('details'))
+    if (currentDetails.length === nextDetails.length) {
+      nextDetails.forEach((details, detailsIndex) => {
+        details.open = currentDetails[detailsIndex].open
+      })
+    }
+  })
+}
+
+/**
+ * 用新的 HTML 更新内容容器
+ * 保留首尾未变化的块，只替换中间发生变化的部分
+ * @returns {Element[]} 新插入的块，需要对它们重新执行各模块的初始化
+ */
+function patchMarkdownContent(container, html) {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  const nextNodes = Array.from(template.content.childNodes)
+  const nextKeys = nextNodes.map(getBlockKey)
+  const currentNodes = Array.from(container.childNodes)
+
+  // 顶层结构被其他脚本改变时无法对应，整体替换
+  if (!renderedBlockKeys || renderedBlockKeys.length !== currentNodes.length) {
+    container.replaceChildren(...nextNodes)
+    renderedBlockKeys = nextKeys
+    return nextNodes.filter(node => node.nodeType === Node.ELEMENT_NODE)
+  }
+
+  let start = 0
+  while (start < currentNodes.length && start < nextNodes.length && renderedBlockKeys[start] === nextKeys[start]) {
+    start++
+  }
+
+  let currentEnd = currentNodes.length
+  let nextEnd = nextNodes.length
+  while (currentEnd > start && nextEnd > start && renderedBlockKeys[currentEnd - 1] === nextKeys[nextEnd - 1]) {
+    currentEnd--
+    nextEnd--
+  }
+
+  // 替换中间发生变化的块
+  const removedNodes = currentNodes.slice(start, currentEnd)
+  const changedNodes = nextNodes.slice(start, nextEnd)
+  preserveDetailsState(removedNodes, changedNodes)
+
+  const reference = currentNodes[currentEnd] ?? null
+  removedNodes.forEach(node => node.remove())
+  changedNodes.forEach(node => container.insertBefore(node, reference))
+
+  // 保留的块更新行号，无法更新的块单独替换
+  const keptPairs = [
+    ...currentNodes.slice(0, start).map((node, index) => [node, nextNodes[index]]),
+    ...currentNodes.slice(currentEnd).map((node, index) => [node, nextNodes[nextEnd + index]]),
+  ]
+  for (const [currentNode, nextNode] of keptPairs) {
+    if (!syncLineNumbers(currentNode, nextNode)) {
+      container.replaceChild(nextNode, currentNode)
+      changedNodes.push(nextNode)
+    }
+  }
+
+  renderedBlockKeys = nextKeys
+  return changedNodes.filter(node => node.nodeType === Node.ELEMENT_NODE)
+}
+
+// 导出给外部使用
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = { patchMarkdownContent, recordContentBlocks }
+}
+else {
+  window.patchMarkdownContent = patchMarkdownContent
+  window.recordContentBlocks = recordContentBlocks
+}
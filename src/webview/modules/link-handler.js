@@ -4,17 +4,37 @@ let currentMarkdownContent = null
 let delegatedLinkClickHandler = null
 
 /**
- * 判断是否为相对路径的 Markdown 文件
+ * 拆分链接中的文件路径与锚点，忽略查询参数
+ */
+function splitMarkdownHref(href) {
+  const hashIndex = href.indexOf('#')
+  const pathWithQuery = hashIndex === -1 ? href : href.slice(0, hashIndex)
+  const fragment = hashIndex === -1 ? '' : href.slice(hashIndex + 1)
+  const queryIndex = pathWithQuery.indexOf('?')
+
+  return {
+    path: queryIndex === -1 ? pathWithQuery : pathWithQuery.slice(0, queryIndex),
+    fragment,
+  }
+}
+
+/**
+ * 判断是否为相对路径的 Markdown 文件（可带 #锚点）
  */
 function isRelativeMarkdownFile(href) {
-  const isMarkdownFile = href.toLowerCase().endsWith('.md')
-  const isLocalFile = href.startsWith('/') || href.startsWith('./') || href.startsWith('../')
+  const { path } = splitMarkdownHref(href)
+  const isMarkdownFile = /\.(?:md|markdown)$/i.test(path)
+  // 没有协议头的路径都视为本地文件，如 other.md、./docs/a.md
+  const isLocalFile = !/^[a-z][\w+.-]*:/i.test(path)
 
   return isMarkdownFile && isLocalFile
 }
 
-function decorateMarkdownLinks(markdownContent) {
-  const links = markdownContent.querySelectorAll('a[href]')
+/**
+ * 为指向 Markdown 文件的链接添加提示
+ */
+function decorateMarkdownLinks(root) {
+  const links = root.querySelectorAll('a[href]')
 
   links.forEach((link) => {
     const href = link.getAttribute('href')
@@ -56,10 +76,13 @@ function initializeLinkHandling() {
 
       event.preventDefault()
 
+      const { path, fragment } = splitMarkdownHref(href)
       if (window.vscode && window.vscode.postMessage) {
         window.vscode.postMessage({
           command: 'openRelativeFile',
-          filePath: href,
+          filePath: path,
+          fragment,
+          line: window.getPreviewTopLine ? window.getPreviewTopLine() : 0,
         })
       }
     }
@@ -79,10 +102,11 @@ function cleanupLinkHandling() {
 
 // 导出给外部使用
 if (typeof module !== 'undefined' && module.exports) {
-  module.exports = { initializeLinkHandling, isRelativeMarkdownFile, cleanupLinkHandling }
+  module.exports = { initializeLinkHandling, decorateMarkdownLinks, isRelativeMarkdownFile, cleanupLinkHandling }
 }
 else {
   window.initializeLinkHandling = initializeLinkHandling
+  window.decorateMarkdownLinks = decorateMarkdownLinks
   window.isRelativeMarkdownFile = isRelativeMarkdownFile
   window.cleanupLinkHandling = cleanupLinkHandling
 }
@@ -77,49 +77,34 @@ function handleExtensionMessage(event) {
           searchHighlightManager.clearHighlightsDOM()
         }
 
+        const previousTocConfig = JSON.stringify(window.tocConfig || {})
+        markdownContent.dataset.documentUri = message.documentUri || ''
         window.frontMatterData = message.frontMatterData || {}
-        window.tocConfig = {
-          expandTocByDefault: Boolean(message.expandTocByDefault),
-        }
+        window.tocConfig = message.tocConfig || {}
         if (message.markdownThemeType) {
           document.documentElement.setAttribute('data-markdown-theme-type', message.markdownThemeType)
         }
 
-        markdownContent.innerHTML = message.content
+        // 只替换发生变化的块，并只对这些块重新执行初始化
+        const changedBlocks = window.patchMarkdownContent(markdownContent, message.content)
 
         // 重新应用语法高亮
         if (window.applySyntaxHighlighting) {
-          window.applySyntaxHighlighting()
-        }
-
-        // 重新初始化链接处理
-        if (window.initializeLinkHandling) {
-          window.robustInitialize(
-            () => document.getElementById('markdown-content'),
-            window.initializeLinkHandling,
-            'Link handling reinitialization failed after content update.',
-            3,
-            50,
-          )
+          changedBlocks.forEach(block => window.applySyntaxHighlighting(block))
         }
 
-        // 重新初始化任务复选框处理
-        if (window.initializeTaskCheckboxHandling) {
-          window.robustInitialize(
-            () => document.getElementById('markdown-content'),
-            window.initializeTaskCheckboxHandling,
-            'Task checkbox reinitialization failed after content update.',
-            3,
-            50,
-          )
+        // 链接点击和任务复选框使用事件委托，只需重新标记新块中的链接
+        if (window.decorateMarkdownLinks) {
+          changedBlocks.forEach(block => window.decorateMarkdownLinks(block))
         }
 
-        // 重新初始化NotionToc
-        if (window.NotionToc) {
+        // 目录会随内容变化自动刷新，配置变化或尚未创建时才重新创建
+        const tocConfigChanged = JSON.stringify(window.tocConfig) !== previousTocConfig
+        if (window.NotionToc && (!window.notionToc || tocConfigChanged)) {
           window.robustInitialize(
             () => {
               const content = document.getElementById('markdown-content')
-              return content && content.querySelector('h1, h2, h3')
+              return content && content.querySelector(window.NotionToc.getHeadingSelector())
             },
             () => {
               if (window.notionToc) {
@@ -133,24 +118,21 @@ function handleExtensionMessage(event) {
           )
         }
 
-        // 重新渲染 Mermaid 图表
+        // 渲染新块中的 Mermaid 图表，同时回传所有图表的错误
         if (window.renderMermaidDiagrams) {
-          window.robustInitialize(
-            () => document.querySelector('pre code.language-mermaid'),
-            window.renderMermaidDiagrams,
-            'Mermaid diagram re-rendering failed after content update.',
-            3,
-            100,
-          )
+          window.renderMermaidDiagrams(changedBlocks)
         }
 
         if (searchHighlightManager && searchHighlightManager.isVisible && searchHighlightManager.currentQuery) {
           searchHighlightManager.performSearch()
         }
 
-        requestAnimationFrame(() => {
-          initializeScrollSync()
-        })
+        // 滚动同步收到同一条消息后会自行重新观察元素
+        if (!scrollSyncManager) {
+          requestAnimationFrame(() => {
+            initializeScrollSync()
+          })
+        }
       }
       break
     }
@@ -168,6 +150,26 @@ function handleExtensionMessage(event) {
       }
       break
     }
+    case 'saveState': {
+      // 保存到 webview 状态中，窗口重新加载后由序列化器用于恢复面板
+      if (window.vscode && message.state) {
+        window.vscode.setState(message.state)
+      }
+      break
+    }
+    case 'updateNavigationState': {
+      if (window.updateNavigationState) {
+        window.updateNavigationState(message.canGoBack, message.canGoForward)
+      }
+      break
+    }
+    case 'requestHistoryNavigation': {
+      // 由命令或快捷键触发，附带当前位置后交回扩展处理
+      if (window.navigateHistory) {
+        window.navigateHistory(message.direction)
+      }
+      break
+    }
     case 'updateScrollSyncState': {
       // 更新滚动同步状态
       if (scrollSyncManager) {
@@ -223,10 +225,16 @@ function handleExtensionMessage(event) {
  * 主初始化函数
  */
 function initializeWebviewModules() {
+  // 在其他模块改写 DOM 之前记录内容块，供后续增量更新比较
+  const markdownContent = document.getElementById('markdown-content')
+  if (markdownContent) {
+    window.recordContentBlocks(markdownContent)
+  }
+
   // 检查TOC初始化条件
   const canInitToc = () => {
     const content = document.getElementById('markdown-content')
-    return content && content.querySelector('h1, h2, h3')
+    return content && window.NotionToc && content.querySelector(window.NotionToc.getHeadingSelector())
   }
 
   if (window.robustInitialize && window.NotionToc) {
@@ -271,6 +279,11 @@ function initializeWebviewModules() {
     )
   }
 
+  // 初始化导航历史按钮
+  if (window.initializeNavigationHistory) {
+    window.initializeNavigationHistory()
+  }
+
   // 初始化滚动同步
   initializeScrollSync()
 
@@ -47,23 +47,26 @@ async function initializeMermaid() {
 
 /**
  * 渲染 Mermaid 图表
+ * @param roots 只渲染这些元素中的代码块，默认渲染整个文档
  */
-async function renderMermaidDiagrams() {
+async function renderMermaidDiagrams(roots = [document]) {
+  // 渲染开始时显示的文档，渲染期间切换了文档时扩展据此丢弃过期的错误
+  const documentUri = document.getElementById('markdown-content')?.dataset.documentUri || ''
   try {
-    // 初始化 Mermaid
-    const mermaid = await initializeMermaid()
-
     // 查找所有 mermaid 代码块
-    const mermaidCodeBlocks = document.querySelectorAll('pre code.language-mermaid')
+    const mermaidCodeBlocks = roots.flatMap(root => Array.from(root.querySelectorAll('pre code.language-mermaid')))
 
-    if (mermaidCodeBlocks.length === 0) {
-      return
-    }
+    // 没有需要渲染的图表时也回传错误，已有图表的行号可能已经变化
+    if (mermaidCodeBlocks.length > 0) {
+      // 初始化 Mermaid
+      const mermaid = await initializeMermaid()
 
-    // 逐个渲染图表
-    for (const codeBlock of mermaidCodeBlocks) {
-      await renderSingleMermaidDiagram(codeBlock, mermaid)
+      for (const codeBlock of mermaidCodeBlocks) {
+        await renderSingleMermaidDiagram(codeBlock, mermaid)
+      }
     }
+
+    reportMermaidErrors(documentUri)
   }
   catch (error) {
     console.error('Mermaid diagram rendering failed:', error)
@@ -71,6 +74,26 @@ async function renderMermaidDiagrams() {
   }
 }
 
+/**
+ * 将页面中所有渲染失败的图表及其所在行回传给扩展
+ * 没有错误时同样发送，以清除已修复图表的诊断
+ * @param documentUri 渲染开始时显示的文档
+ */
+function reportMermaidErrors(documentUri) {
+  if (window.vscode && window.vscode.postMessage) {
+    const errors = Array.from(document.querySelectorAll('.mermaid-error[data-line]'), element => ({
+      line: Number.parseInt(element.getAttribute('data-line'), 10),
+      message: element.getAttribute('data-error-message') || '',
+    })).filter(error => !Number.isNaN(error.line))
+
+    window.vscode.postMessage({
+      command: 'mermaidErrors',
+      documentUri,
+      errors,
+    })
+  }
+}
+
 /**
  * 渲染单个 Mermaid 图表
  */
@@ -93,6 +116,10 @@ async function renderSingleMermaidDiagram(codeBlock, mermaid) {
     const graphContainer = document.createElement('div')
     graphContainer.className = 'mermaid-graph'
     graphContainer.innerHTML = svg
+    // 保留行号，供滚动同步定位
+    if (parentPre.hasAttribute('data-line')) {
+      graphContainer.setAttribute('data-line', parentPre.getAttribute('data-line'))
+    }
 
     // 用图表容器替换原始的代码块
     parentPre.parentNode.replaceChild(graphContainer, parentPre)
@@ -103,11 +130,15 @@ async function renderSingleMermaidDiagram(codeBlock, mermaid) {
     // 渲染失败时显示错误信息
     const errorDiv = document.createElement('div')
     errorDiv.className = 'mermaid-error'
+    errorDiv.setAttribute('data-error-message', error.message)
     errorDiv.innerHTML = `
       <strong>Mermaid 图表渲染失败</strong><br>
       ${escapeHtml(error.message)}
     `
 
+    if (parentPre.hasAttribute('data-line')) {
+      errorDiv.setAttribute('data-line', parentPre.getAttribute('data-line'))
+    }
     parentPre.parentNode.replaceChild(errorDiv, parentPre)
   }
 }
@@ -0,0 +1,117 @@
+// 预览导航历史：后退/前进按钮，以及向扩展报告当前滚动位置
+
+let navigationBar = null
+let navigationBackButton = null
+let navigationForwardButton = null
+let navigationMouseHandler = null
+
+/**
+ * 获取预览顶部对应的源文件行号
+ */
+function getPreviewTopLine() {
+  const elements = document.querySelectorAll('#markdown-content [data-line]')
+
+  for (const element of elements) {
+    const rect = element.getBoundingClientRect()
+    if (rect.bottom > 0) {
+      const line = Number.parseInt(element.getAttribute('data-line'), 10)
+      return Number.isFinite(line) ? line : 0
+    }
+  }
+
+  return 0
+}
+
+/**
+ * 请求扩展在导航历史中后退或前进，同时带上当前位置
+ */
+function navigateHistory(direction) {
+  if (window.vscode && window.vscode.postMessage) {
+    window.vscode.postMessage({
+      command: 'navigateHistory',
+      direction,
+      line: getPreviewTopLine(),
+    })
+  }
+}
+
+function createNavigationButton(className, title, icon, direction) {
+  const button = document.createElement('button')
+  button.className = `navigation-history-button ${className}`
+  button.title = title
+  button.setAttribute('aria-label', title)
+  button.disabled = true
+  button.innerHTML = icon
+  button.addEventListener('click', () => navigateHistory(direction))
+  return button
+}
+
+/**
+ * 创建后退/前进按钮，没有历史记录时保持隐藏
+ */
+function initializeNavigationHistory() {
+  if (navigationBar) {
+    return
+  }
+
+  const backIcon = `<svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M10 4L6 8L10 12" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>`
+  const forwardIcon = `<svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M6 4L10 8L6 12" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>`
+
+  navigationBar = document.createElement('div')
+  navigationBar.className = 'navigation-history'
+  navigationBackButton = createNavigationButton('navigation-back', 'Go Back (Alt+Left)', backIcon, 'back')
+  navigationForwardButton = createNavigationButton('navigation-forward', 'Go Forward (Alt+Right)', forwardIcon, 'forward')
+  navigationBar.append(navigationBackButton, navigationForwardButton)
+  document.body.appendChild(navigationBar)
+
+  // 鼠标侧键后退/前进
+  navigationMouseHandler = (event) => {
+    if (event.button === 3 || event.button === 4) {
+      event.preventDefault()
+      navigateHistory(event.button === 3 ? 'back' : 'forward')
+    }
+  }
+  window.addEventListener('mouseup', navigationMouseHandler)
+}
+
+/**
+ * 更新按钮可用状态
+ */
+function updateNavigationState(canGoBack, canGoForward) {
+  if (!navigationBar) {
+    initializeNavigationHistory()
+  }
+
+  navigationBackButton.disabled = !canGoBack
+  navigationForwardButton.disabled = !canGoForward
+  navigationBar.classList.toggle('visible', Boolean(canGoBack || canGoForward))
+}
+
+function cleanupNavigationHistory() {
+  if (navigationMouseHandler) {
+    window.removeEventListener('mouseup', navigationMouseHandler)
+    navigationMouseHandler = null
+  }
+  navigationBar?.remove()
+  navigationBar = null
+  navigationBackButton = null
+  navigationForwardButton = null
+}
+
+// 导出给外部使用
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = {
+    getPreviewTopLine,
+    navigateHistory,
+    initializeNavigationHistory,
+    updateNavigationState,
+    cleanupNavigationHistory,
+  }
+}
+else {
+  window.getPreviewTopLine = getPreviewTopLine
+  window.navigateHistory = navigateHistory
+  window.initializeNavigationHistory = initializeNavigationHistory
+  window.updateNavigationState = updateNavigationState
+  window.cleanupNavigationHistory = cleanupNavigationHistory
+}
@@ -13,12 +13,31 @@ class NotionToc {
     this.contentObserver = null
     this.isManualScrolling = false // 标志位：是否正在手动滚动
 
-    // 读取目录展开配置
-    this.expandByDefault = window.tocConfig?.expandTocByDefault || false
+    // 读取目录配置
+    this.config = NotionToc.getConfig()
+    this.expandByDefault = this.config.expandTocByDefault
 
     this.init()
   }
 
+  // 合并扩展传入的目录配置与默认值
+  static getConfig() {
+    const config = window.tocConfig || {}
+    const levels = Array.isArray(config.levels) && config.levels.length ? config.levels : [1, 2, 3]
+    return {
+      expandTocByDefault: Boolean(config.expandTocByDefault),
+      levels: [...levels].sort((a, b) => a - b),
+      numbering: Boolean(config.numbering),
+      position: config.position === 'left' ? 'left' : 'right',
+      maxWidth: config.maxWidth || '240px',
+    }
+  }
+
+  // 目录包含的标题选择器，如 "h1, h2, h3"
+  static getHeadingSelector() {
+    return NotionToc.getConfig().levels.map(level => `h${level}`).join(', ')
+  }
+
   init() {
     try {
       this.createTocContainer()
@@ -39,7 +58,8 @@ class NotionToc {
   // 创建TOC容器
   createTocContainer() {
     this.tocContainer = document.createElement('div')
-    this.tocContainer.className = 'notion-toc-container'
+    this.tocContainer.className = `notion-toc-container toc-${this.config.position}`
+    this.tocContainer.style.setProperty('--toc-max-width', this.config.maxWidth)
     this.tocContainer.innerHTML = `
       <div class="notion-toc-minimal">
         <div class="toc-lines"></div>
@@ -66,24 +86,46 @@ class NotionToc {
       return
 
     this.headers = []
-    const headerElements = content.querySelectorAll('h1, h2, h3')
+    // 渲染器已为所有标题（包括原始 HTML 中的标题）按 GitHub 规则生成 id，没有 id 的标题无法跳转，不加入目录
+    const headerElements = Array.from(content.querySelectorAll(NotionToc.getHeadingSelector())).filter(header => header.id)
+    const sectionNumbers = this.config.numbering ? this.getSectionNumbers(headerElements) : []
 
     headerElements.forEach((header, index) => {
-      const id = header.id || `header-${index}`
-      if (!header.id) {
-        header.id = id
+      const id = header.id
+
+      // 编号通过 data 属性和 CSS 伪元素显示，不改变标题文本
+      if (sectionNumbers[index]) {
+        header.setAttribute('data-section-number', sectionNumbers[index])
+      }
+      else {
+        header.removeAttribute('data-section-number')
       }
 
       this.headers.push({
         element: header,
         id,
         level: Number.parseInt(header.tagName.charAt(1)),
+        depth: this.config.levels.indexOf(Number.parseInt(header.tagName.charAt(1))),
         text: header.textContent.trim(),
+        number: sectionNumbers[index] || '',
         index, // 添加索引方便查找
       })
     })
   }
 
+  // 按目录包含的层级计算章节编号，如 1、1.2、1.2.3
+  // 从文档中实际出现的最浅层级开始编号，文档从 h2 开始时不会出现 0.1
+  getSectionNumbers(headerElements) {
+    const depths = Array.from(headerElements, header => this.config.levels.indexOf(Number.parseInt(header.tagName.charAt(1))))
+    const minDepth = Math.min(...depths)
+    const counters = this.config.levels.map(() => 0)
+    return depths.map((depth) => {
+      counters[depth]++
+      counters.fill(0, depth + 1)
+      return counters.slice(minDepth, depth + 1).join('.')
+    })
+  }
+
   // 渲染并缓存DOM节点
   renderToc() {
     if (!this.linesContainer || !this.itemsContainer)
@@ -102,8 +144,7 @@ class NotionToc {
       line.setAttribute('data-index', index)
       const lineBar = document.createElement('div')
       lineBar.className = 'toc-line-bar'
-      const widthMap = { 1: 16, 2: 12, 3: 8 }
-      lineBar.style.width = `${widthMap[header.level] || 8}px`
+      lineBar.style.width = `${Math.max(16 - header.depth * 4, 4)}px`
       line.appendChild(lineBar)
       this.linesContainer.appendChild(line)
       this.lineBars.push(lineBar) // 缓存节点
@@ -115,9 +156,10 @@ class NotionToc {
       item.href = `#${header.id}`
       item.setAttribute('data-index', index)
       item.setAttribute('title', text)
-      const indentMap = { 1: 0, 2: 16, 3: 32 }
-      item.style.marginLeft = `${indentMap[header.level] || 0}px`
-      item.innerHTML = `${text}`
+      item.style.marginLeft = `${header.depth * 16}px`
+      item.innerHTML = header.number
+        ? `<span class="toc-item-number">${header.number}</span>${text}`
+        : text
       this.itemsContainer.appendChild(item)
       this.tocItems.push(item) // 缓存节点
     })
@@ -266,6 +308,7 @@ class NotionToc {
     if (this.tocContainer) {
       this.tocContainer.remove()
     }
+    this.headers.forEach(header => header.element.removeAttribute('data-section-number'))
     this.headers = []
     this.lineBars = []
     this.tocItems = []
@@ -0,0 +1,249 @@
+// 演示模式：将渲染后的文档拆分为幻灯片，处理键盘翻页、演讲者备注和页码
+
+let slides = []
+let currentSlideIndex = 0
+let slideCounter = null
+let notesPanel = null
+let notesVisible = false
+
+/**
+ * 按设置判断元素是否开始新的幻灯片
+ * 分隔线始终拆分幻灯片，按标题拆分时不高于所选级别的标题也会开始新页
+ */
+function getSlideHeadingLevel() {
+  const splitOn = window.presentationConfig?.splitOn || 'hr'
+  const match = /^h([1-6])$/.exec(splitOn)
+  return match ? Number.parseInt(match[1], 10) : 0
+}
+
+function isHeadingBreak(node, headingLevel) {
+  if (!headingLevel || node.nodeType !== Node.ELEMENT_NODE) {
+    return false
+  }
+  const match = /^H([1-6])$/.exec(node.tagName)
+  return Boolean(match) && Number.parseInt(match[1], 10) <= headingLevel
+}
+
+function hasVisibleContent(nodes) {
+  return nodes.some(node => node.nodeType === Node.ELEMENT_NODE
+    || (node.nodeType === Node.TEXT_NODE && node.textContent.trim()))
+}
+
+/**
+ * 收集幻灯片中 <!-- notes: ... --> 注释里的演讲者备注
+ */
+function getSpeakerNotes(slide) {
+  const notes = []
+  const walker = document.createTreeWalker(slide, NodeFilter.SHOW_COMMENT)
+  while (walker.nextNode()) {
+    const match = /^\s*notes?\b:?([\s\S]*)$/i.exec(walker.currentNode.data)
+    if (match && match[1].trim()) {
+      notes.push(match[1].trim())
+    }
+  }
+  return notes.join('\n\n')
+}
+
+/**
+ * 将内容容器的顶层节点分组为幻灯片
+ */
+function buildSlides() {
+  const container = document.getElementById('markdown-content')
+  if (!container) {
+    return
+  }
+
+  const headingLevel = getSlideHeadingLevel()
+  const groups = [[]]
+  for (const node of Array.from(container.childNodes)) {
+    const currentGroup = groups[groups.length - 1]
+    if (node.nodeType === Node.ELEMENT_NODE && node.tagName === 'HR') {
+      groups.push([])
+      continue
+    }
+    if (isHeadingBreak(node, headingLevel) && hasVisibleContent(currentGroup)) {
+      groups.push([node])
+      continue
+    }
+    currentGroup.push(node)
+  }
+
+  container.innerHTML = ''
+  slides = groups
+    .filter(group => hasVisibleContent(group))
+    .map((group) => {
+      const slide = document.createElement('section')
+      slide.className = 'slide'
+      group.forEach(node => slide.appendChild(node))
+
+      // 幻灯片的起始行取第一个带行号的元素，用于与编辑器光标同步
+      const lineElement = slide.querySelector('[data-line]')
+      if (lineElement) {
+        slide.setAttribute('data-slide-line', lineElement.getAttribute('data-line'))
+      }
+      slide.speakerNotes = getSpeakerNotes(slide)
+
+      container.appendChild(slide)
+      return slide
+    })
+}
+
+/**
+ * 显示指定幻灯片
+ * @param {number} index 幻灯片下标
+ * @param {boolean} notify 是否通知扩展同步编辑器光标
+ */
+function showSlide(index, notify = true) {
+  if (!slides.length) {
+    updateSlideCounter()
+    return
+  }
+
+  const nextIndex = Math.max(0, Math.min(index, slides.length - 1))
+  const changed = nextIndex !== currentSlideIndex
+  slides[currentSlideIndex]?.classList.remove('active')
+  currentSlideIndex = nextIndex
+
+  const slide = slides[currentSlideIndex]
+  slide.classList.add('active')
+  slide.scrollTop = 0
+  updateSlideCounter()
+  updateNotesPanel()
+
+  window.vscode?.setState({ ...window.vscode.getState(), slideIndex: currentSlideIndex })
+  const line = Number.parseInt(slide.getAttribute('data-slide-line'), 10)
+  if (notify && changed && Number.isFinite(line)) {
+    window.vscode?.postMessage({ command: 'slideChanged', line })
+  }
+}
+
+/**
+ * 显示包含源文件指定行的幻灯片
+ */
+function showSlideAtLine(line) {
+  let index = 0
+  slides.forEach((slide, slideIndex) => {
+    const slideLine = Number.parseInt(slide.getAttribute('data-slide-line'), 10)
+    if (Number.isFinite(slideLine) && slideLine <= line) {
+      index = slideIndex
+    }
+  })
+  showSlide(index, false)
+}
+
+function updateSlideCounter() {
+  if (slideCounter) {
+    slideCounter.textContent = slides.length ? `${currentSlideIndex + 1} / ${slides.length}` : '0 / 0'
+  }
+}
+
+function updateNotesPanel() {
+  if (!notesPanel) {
+    return
+  }
+  const notes = slides[currentSlideIndex]?.speakerNotes
+  notesPanel.textContent = notes || '（此页没有备注）'
+  notesPanel.style.display = notesVisible ? 'block' : 'none'
+}
+
+function handlePresentationKeydown(event) {
+  if (event.ctrlKey || event.metaKey || event.altKey) {
+    return
+  }
+
+  switch (event.key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+    case 'PageDown':
+    case 'Enter':
+    case 'n':
+      showSlide(currentSlideIndex + 1)
+      break
+    case ' ':
+      showSlide(currentSlideIndex + (event.shiftKey ? -1 : 1))
+      break
+    case 'ArrowLeft':
+    case 'ArrowUp':
+    case 'PageUp':
+    case 'Backspace':
+    case 'p':
+      showSlide(currentSlideIndex - 1)
+      break
+    case 'Home':
+      showSlide(0)
+      break
+    case 'End':
+      showSlide(slides.length - 1)
+      break
+    case 's':
+      notesVisible = !notesVisible
+      updateNotesPanel()
+      break
+    case 'f':
+      window.vscode?.postMessage({ command: 'toggleFullScreen' })
+      break
+    default:
+      return
+  }
+  event.preventDefault()
+}
+
+function handlePresentationMessage(event) {
+  const message = event.data
+  switch (message.command) {
+    case 'updateSlides': {
+      const container = document.getElementById('markdown-content')
+      if (!container) {
+        return
+      }
+      const index = currentSlideIndex
+      container.innerHTML = message.content
+      buildSlides()
+      currentSlideIndex = Math.min(index, Math.max(slides.length - 1, 0))
+      showSlide(currentSlideIndex, false)
+      renderPresentationDiagrams()
+      break
+    }
+    case 'showSlideAtLine':
+      showSlideAtLine(message.line)
+      break
+  }
+}
+
+function renderPresentationDiagrams() {
+  if (window.renderMermaidDiagrams && document.querySelector('pre code.language-mermaid')) {
+    window.renderMermaidDiagrams()
+  }
+}
+
+/**
+ * 初始化演示模式
+ */
+function initializePresentation() {
+  buildSlides()
+
+  slideCounter = document.createElement('div')
+  slideCounter.className = 'slide-counter'
+  notesPanel = document.createElement('div')
+  notesPanel.className = 'speaker-notes'
+  document.body.append(slideCounter, notesPanel)
+
+  window.addEventListener('keydown', handlePresentationKeydown)
+  window.addEventListener('message', handlePresentationMessage)
+
+  // 页面重新生成（如主题变化）后回到之前的幻灯片
+  const savedIndex = window.vscode?.getState()?.slideIndex
+  currentSlideIndex = Number.isInteger(savedIndex) ? Math.min(savedIndex, Math.max(slides.length - 1, 0)) : 0
+  showSlide(currentSlideIndex, false)
+  renderPresentationDiagrams()
+}
+
+// 导出给外部使用
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = { initializePresentation, showSlide, showSlideAtLine }
+}
+else {
+  window.initializePresentation = initializePresentation
+  window.showSlide = showSlide
+  window.showSlideAtLine = showSlideAtLine
+}
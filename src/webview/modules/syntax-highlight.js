@@ -2,9 +2,10 @@
 
 /**
  * 应用语法高亮 - 主入口函数
+ * @param root 只处理该元素中的代码块，默认处理整个文档
  */
-function applySyntaxHighlighting() {
-  const codeBlocks = document.querySelectorAll('pre code')
+function applySyntaxHighlighting(root = document) {
+  const codeBlocks = root.querySelectorAll('pre code')
 
   codeBlocks.forEach((codeElement) => {
     const preElement = codeElement.parentElement